@@ -0,0 +1,193 @@
+// Simulated live position feed for trip tracking.
+//
+//   API_URL=http://localhost:8000/api npm run mock:tracking
+//   VITE_TRACKING_URL=http://localhost:8787 npm run dev
+//
+// Serves GET /trips/:id/positions/ as server-sent events. The trip is loaded
+// from the backend and driven along its route on the planned schedule,
+// SPEED times faster than real time and DELAY_MINUTES behind plan (negative
+// for ahead). Both can be overridden per request with ?speed=&delay=.
+
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT || 8787);
+const API_URL = process.env.API_URL || "http://localhost:8000/api";
+const SPEED = Number(process.env.SPEED || 60);
+const DELAY_MINUTES = Number(process.env.DELAY_MINUTES || 0);
+const INTERVAL_MS = 1000;
+
+const decodePolyline = (encoded, precision = 5) => {
+  const factor = 10 ** precision;
+  const points = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+  const readValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+  while (index < encoded.length) {
+    lat += readValue();
+    lng += readValue();
+    points.push([lat / factor, lng / factor]);
+  }
+  return points;
+};
+
+// [lat, lng] points of the trip's road geometry, or its stops as a fallback.
+// Covers the common shapes; the app itself accepts a few more.
+const routePath = (trip) => {
+  const summary = trip.route_summary;
+  const precision = summary?.polyline_precision ?? 5;
+  const encoded =
+    typeof summary === "string"
+      ? summary
+      : summary?.encoded_polyline ?? summary?.polyline;
+  if (typeof encoded === "string") return decodePolyline(encoded, precision);
+
+  let geometry = summary?.geometry ?? summary;
+  if (geometry?.type === "Feature") geometry = geometry.geometry;
+  if (typeof geometry === "string") return decodePolyline(geometry, precision);
+  if (geometry?.type === "LineString") {
+    return geometry.coordinates.map(([lng, lat]) => [lat, lng]);
+  }
+  if (geometry?.type === "MultiLineString") {
+    return geometry.coordinates.flat().map(([lng, lat]) => [lat, lng]);
+  }
+  return (trip.stops || []).map(({ coords: [lng, lat] }) => [lat, lng]);
+};
+
+const haversineMiles = (a, b) => {
+  const toRad = (deg) => (deg * Math.PI) / 180;
+  const h =
+    Math.sin(toRad(b[0] - a[0]) / 2) ** 2 +
+    Math.cos(toRad(a[0])) *
+      Math.cos(toRad(b[0])) *
+      Math.sin(toRad(b[1] - a[1]) / 2) ** 2;
+  return 2 * 3958.8 * Math.asin(Math.sqrt(h));
+};
+
+const pointAtFraction = (path, fraction) => {
+  const distances = [0];
+  for (let i = 1; i < path.length; i++) {
+    distances.push(distances[i - 1] + haversineMiles(path[i - 1], path[i]));
+  }
+  const target = Math.max(0, Math.min(1, fraction)) * distances.at(-1);
+  let i = 1;
+  while (i < path.length - 1 && distances[i] < target) i++;
+  const span = distances[i] - distances[i - 1];
+  const t = span > 0 ? (target - distances[i - 1]) / span : 0;
+  return [
+    path[i - 1][0] + (path[i][0] - path[i - 1][0]) * t,
+    path[i - 1][1] + (path[i][1] - path[i - 1][1]) * t,
+  ];
+};
+
+// Where the plan puts the truck at `time`, as a fraction of the route
+const plannedFraction = (segments, time) => {
+  const totalMiles = segments.reduce(
+    (sum, segment) => sum + Number(segment.distance_miles),
+    0
+  );
+  let miles = 0;
+  for (const segment of segments) {
+    const start = Date.parse(segment.start_time);
+    const end = Date.parse(segment.end_time);
+    const segmentMiles = Number(segment.distance_miles);
+    if (time < end) {
+      const t =
+        time <= start || end <= start ? 0 : (time - start) / (end - start);
+      return totalMiles > 0 ? (miles + segmentMiles * t) / totalMiles : 0;
+    }
+    miles += segmentMiles;
+  }
+  return 1;
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const match = url.pathname.match(/^\/trips\/(\d+)\/positions\/?$/);
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  if (!match) {
+    res.writeHead(404).end();
+    return;
+  }
+
+  let trip;
+  try {
+    const tripRes = await fetch(`${API_URL}/trips/${match[1]}/`);
+    if (!tripRes.ok) throw new Error(`backend returned ${tripRes.status}`);
+    trip = await tripRes.json();
+  } catch (err) {
+    console.error(`Could not load trip ${match[1]}:`, err.message);
+    res.writeHead(502).end();
+    return;
+  }
+
+  const segments = trip.segments || [];
+  const path = routePath(trip);
+  if (!segments.length || path.length < 2) {
+    res.writeHead(422).end();
+    return;
+  }
+
+  const speed = Number(url.searchParams.get("speed") ?? SPEED);
+  const delayMs =
+    Number(url.searchParams.get("delay") ?? DELAY_MINUTES) * 60_000;
+  const planStart = Date.parse(segments[0].start_time);
+  const planEnd = Date.parse(segments.at(-1).end_time);
+  const startedAt = Date.now();
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  console.log(
+    `Streaming trip ${trip.id} at ${speed}x, ${delayMs / 60_000} min late`
+  );
+
+  let previous = null;
+  const timer = setInterval(() => {
+    // Simulated wall clock, and where the late-running truck is by then
+    const now = planStart + (Date.now() - startedAt) * speed;
+    const [lat, lng] = pointAtFraction(
+      path,
+      plannedFraction(segments, now - delayMs)
+    );
+    const speedMph =
+      previous && now > previous.time
+        ? haversineMiles(previous.point, [lat, lng]) /
+          ((now - previous.time) / 3_600_000)
+        : 0;
+    previous = { point: [lat, lng], time: now };
+
+    res.write(
+      `data: ${JSON.stringify({
+        lat,
+        lng,
+        timestamp: new Date(now).toISOString(),
+        speed_mph: Math.round(speedMph),
+      })}\n\n`
+    );
+
+    // Stay connected once arrived, so EventSource doesn't replay the trip
+    if (now - delayMs > planEnd) clearInterval(timer);
+  }, INTERVAL_MS);
+
+  req.on("close", () => clearInterval(timer));
+});
+
+server.listen(PORT, () => {
+  console.log(
+    `Mock tracking feed on http://localhost:${PORT}/trips/:id/positions/`
+  );
+});
@@ -0,0 +1,105 @@
+// Service worker for the installed app. The page shell and built assets are
+// cached at install so the planner opens offline; trips themselves live in
+// IndexedDB.
+// Map tiles are only read from the cache the page fills along planned routes
+// (src/utils/mapTiles.ts), so it doesn't grow with every map browsed.
+
+const SHELL_CACHE = "app-shell-v1";
+const TILE_CACHE = "map-tiles-v1";
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg"];
+// Every file of the build, lazy chunks included; filled in by the build
+// (precacheAssets in vite.config.ts)
+const ASSET_URLS = self.__BUILD_ASSETS__ || [];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll([...SHELL_URLS, ...ASSET_URLS]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Drops assets of earlier builds, which the new pages no longer load
+const pruneAssets = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  const requests = await cache.keys();
+  await Promise.all(
+    requests
+      .filter((request) => {
+        const { pathname } = new URL(request.url);
+        return (
+          pathname.startsWith("/assets/") && !ASSET_URLS.includes(pathname)
+        );
+      })
+      .map((request) => cache.delete(request))
+  );
+};
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== SHELL_CACHE && key !== TILE_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(pruneAssets)
+      .then(() => self.clients.claim())
+  );
+});
+
+// Network first, so a deploy is picked up on the next load
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put("/", response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match("/")) ?? Response.error();
+  }
+};
+
+// Built files have hashed names, so a cached copy never goes stale
+const handleAsset = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const handleTile = async (request) => {
+  const cache = await caches.open(TILE_CACHE);
+  return (await cache.match(request.url)) ?? fetch(request);
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+  } else if (
+    request.destination === "image" &&
+    url.origin !== self.location.origin
+  ) {
+    // Tiles come from whichever server VITE_TILE_URL names
+    event.respondWith(handleTile(request));
+  } else if (
+    url.origin === self.location.origin &&
+    (url.pathname.startsWith("/assets/") || SHELL_URLS.includes(url.pathname))
+  ) {
+    event.respondWith(handleAsset(request));
+  }
+});
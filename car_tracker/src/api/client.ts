@@ -0,0 +1,246 @@
+import type { z } from "zod";
+
+export type ApiErrorKind =
+  | "http"
+  | "network"
+  | "timeout"
+  | "aborted"
+  | "validation";
+
+/**
+ * Every failure from the API layer. `fieldErrors` carries per-field messages
+ * from DRF-style 400 responses, `details` the raw body or schema issues.
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly fieldErrors: Record<string, string[]>;
+  readonly details?: unknown;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    options: {
+      status?: number;
+      fieldErrors?: Record<string, string[]>;
+      details?: unknown;
+    } = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = options.status;
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.details = options.details;
+  }
+
+  /** Network failures, timeouts and 5xx/429 responses may succeed on retry. */
+  get retryable(): boolean {
+    if (this.kind === "network" || this.kind === "timeout") return true;
+    return (
+      this.kind === "http" &&
+      this.status !== undefined &&
+      (this.status >= 500 || this.status === 429)
+    );
+  }
+}
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof ApiError && err.kind === "aborted";
+
+export interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  body?: unknown;
+  query?: Record<string, string | number | undefined>;
+  signal?: AbortSignal;
+  /** Per attempt. */
+  timeoutMs?: number;
+  /** Extra attempts after the first; only used for idempotent methods. */
+  retries?: number;
+  /** Prefix for `path`; `VITE_API_URL` by default, "" for this app's files. */
+  baseUrl?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+export const apiUrl = (
+  path: string,
+  query?: RequestOptions["query"],
+  baseUrl: string = import.meta.env.VITE_API_URL
+): string => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  const search = params.toString();
+  return `${baseUrl}${path}${search ? `?${search}` : ""}`;
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    // A listener added after the abort would never fire
+    if (signal?.aborted) {
+      reject(new ApiError("aborted", "Request cancelled"));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new ApiError("aborted", "Request cancelled"));
+      },
+      { once: true }
+    );
+  });
+
+const readBody = async (res: Response): Promise<unknown> => {
+  const text = await res.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+// DRF returns {detail}, our views {error}, and serializers {field: [msgs]}
+const toHttpError = (status: number, body: unknown): ApiError => {
+  let message = `Request failed with status ${status}`;
+  const fieldErrors: Record<string, string[]> = {};
+
+  if (body && typeof body === "object" && !Array.isArray(body)) {
+    for (const [key, value] of Object.entries(body)) {
+      if ((key === "error" || key === "detail") && typeof value === "string") {
+        message = value;
+      } else if (key === "non_field_errors" && Array.isArray(value)) {
+        message = value.map(String).join(" ");
+      } else if (Array.isArray(value)) {
+        fieldErrors[key] = value.map(String);
+      } else if (typeof value === "string") {
+        fieldErrors[key] = [value];
+      }
+    }
+    if (
+      Object.keys(fieldErrors).length > 0 &&
+      message.startsWith("Request failed")
+    ) {
+      message = "Some fields are invalid";
+    }
+  } else if (typeof body === "string" && body.length < 200) {
+    message = body;
+  }
+
+  return new ApiError("http", message, { status, fieldErrors, details: body });
+};
+
+const attempt = async <T>(
+  url: string,
+  schema: z.ZodType<T>,
+  options: RequestOptions
+): Promise<T> => {
+  if (options.signal?.aborted) {
+    throw new ApiError("aborted", "Request cancelled");
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+
+  // Both the fetch and the body read fail with the controller's abort
+  const connectionError = (
+    err: unknown,
+    message: string,
+    status?: number
+  ): ApiError => {
+    if (timedOut) {
+      return new ApiError("timeout", "The server took too long to respond");
+    }
+    if (options.signal?.aborted) {
+      return new ApiError("aborted", "Request cancelled");
+    }
+    return new ApiError("network", message, { status, details: err });
+  };
+
+  try {
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method: options.method ?? "GET",
+        headers:
+          options.body === undefined
+            ? undefined
+            : { "Content-Type": "application/json" },
+        body:
+          options.body === undefined ? undefined : JSON.stringify(options.body),
+        signal: controller.signal,
+      });
+    } catch (err) {
+      throw connectionError(err, "Could not reach the server");
+    }
+
+    let body: unknown;
+    try {
+      body = await readBody(res);
+    } catch (err) {
+      // The server has the request by now, hence the status
+      throw connectionError(
+        err,
+        "The connection dropped while reading the response",
+        res.status
+      );
+    }
+    if (!res.ok) throw toHttpError(res.status, body);
+
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+      console.error("Unexpected API response:", url, parsed.error.issues);
+      throw new ApiError("validation", "The server sent an unexpected response", {
+        status: res.status,
+        details: parsed.error.issues,
+      });
+    }
+    return parsed.data;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+/**
+ * Calls `VITE_API_URL + path` and validates the JSON response against
+ * `schema`. GETs are retried with exponential backoff on retryable errors;
+ * aborting `signal` cancels the request and any pending retry.
+ */
+export async function request<T>(
+  path: string,
+  schema: z.ZodType<T>,
+  options: RequestOptions = {}
+): Promise<T> {
+  const url = apiUrl(path, options.query, options.baseUrl);
+  const retries =
+    options.retries ??
+    ((options.method ?? "GET") === "GET" ? DEFAULT_GET_RETRIES : 0);
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    try {
+      return await attempt(url, schema, options);
+    } catch (err) {
+      if (
+        !(err instanceof ApiError) ||
+        !err.retryable ||
+        attemptNumber >= retries
+      ) {
+        throw err;
+      }
+      await wait(RETRY_BASE_DELAY_MS * 2 ** attemptNumber, options.signal);
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { request } from "./client";
+import { driverProfileSchema, driversSchema } from "./schemas";
+import type { Driver, DriverProfile } from "./types";
+
+export const listDrivers = (signal?: AbortSignal): Promise<Driver[]> =>
+  request("/drivers/", driversSchema, { signal });
+
+export const getDriver = (
+  id: number,
+  signal?: AbortSignal
+): Promise<DriverProfile> =>
+  request(`/drivers/${id}/`, driverProfileSchema, { signal });
@@ -0,0 +1,7 @@
+import { request } from "./client";
+import { fleetSchema } from "./schemas";
+import type { FleetVehicle } from "./types";
+
+/** Every truck with its assigned driver and active trip, if any. */
+export const listFleet = (signal?: AbortSignal): Promise<FleetVehicle[]> =>
+  request("/fleet/", fleetSchema, { signal });
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ApiError } from "./client";
+import { createFileFuelPriceSource } from "./fuelPrices";
+
+const PRICE_FILE = {
+  default_price_per_gallon: 3.9,
+  regions: [
+    {
+      name: "Texas",
+      bounds: [
+        [-106.6, 25.8],
+        [-93.5, 36.5],
+      ],
+      price_per_gallon: 3.5,
+    },
+  ],
+};
+
+const DALLAS: [number, number] = [-96.797, 32.7767];
+const DENVER: [number, number] = [-104.9903, 39.7392];
+
+// Holds the response back until the test releases it
+const stubPriceFile = () => {
+  let respond = () => {};
+  const fetchMock = vi.fn(
+    () =>
+      new Promise<Response>((resolve) => {
+        respond = () => resolve(new Response(JSON.stringify(PRICE_FILE)));
+      })
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return { fetchMock, respond: () => respond() };
+};
+
+describe("createFileFuelPriceSource", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("looks prices up by region, else the default", async () => {
+    const { respond } = stubPriceFile();
+    const source = createFileFuelPriceSource("/fuel-prices.json");
+
+    const lookups = Promise.all([
+      source.priceAt(DALLAS),
+      source.priceAt(DENVER),
+    ]);
+    respond();
+
+    expect(await lookups).toEqual([3.5, 3.9]);
+  });
+
+  it("still loads the file for a lookup repeated after an abort", async () => {
+    const { fetchMock, respond } = stubPriceFile();
+    const source = createFileFuelPriceSource("/fuel-prices.json");
+
+    // As under StrictMode: the first effect aborts and runs again at once
+    const controller = new AbortController();
+    const aborted = source.priceAt(DALLAS, controller.signal);
+    controller.abort();
+    const repeated = source.priceAt(DALLAS, new AbortController().signal);
+    respond();
+
+    await expect(aborted).rejects.toMatchObject({ kind: "aborted" });
+    await expect(aborted).rejects.toBeInstanceOf(ApiError);
+    expect(await repeated).toBe(3.5);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,89 @@
+import { ApiError, request } from "./client";
+import {
+  fuelPriceFileSchema,
+  fuelPriceSchema,
+  type FuelPriceFile,
+} from "./schemas";
+
+/**
+ * Where diesel prices come from. `priceAt` resolves to dollars per gallon at
+ * a [lng, lat] point, or null when the source has no price there.
+ */
+export interface FuelPriceSource {
+  label: string;
+  priceAt: (
+    coords: [number, number],
+    signal?: AbortSignal
+  ) => Promise<number | null>;
+}
+
+/** Prices from the backend's `GET /fuel-prices/?lat=&lng=`. */
+export const apiFuelPriceSource: FuelPriceSource = {
+  label: "Fuel price service",
+  priceAt: async ([lng, lat], signal) =>
+    (
+      await request("/fuel-prices/", fuelPriceSchema, {
+        query: { lat, lng },
+        signal,
+        timeoutMs: 10_000,
+      })
+    ).price_per_gallon,
+};
+
+// Settles with `promise`, or rejects as cancelled when `signal` aborts first
+const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal) =>
+  new Promise<T>((resolve, reject) => {
+    const cancel = () => reject(new ApiError("aborted", "Request cancelled"));
+    if (signal?.aborted) {
+      cancel();
+      return;
+    }
+    signal?.addEventListener("abort", cancel, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal?.removeEventListener("abort", cancel);
+    });
+  });
+
+/**
+ * Prices from a JSON file served with the app (see public/fuel-prices.json),
+ * for testing or for fleets with negotiated regional prices. The file is
+ * read once per page load.
+ */
+export const createFileFuelPriceSource = (path: string): FuelPriceSource => {
+  let file: Promise<FuelPriceFile> | null = null;
+
+  return {
+    label: `Price file ${path}`,
+    priceAt: async ([lng, lat], signal) => {
+      // The read is shared by every lookup, so one caller aborting must not
+      // cancel it for the rest; each lookup stops waiting on its own signal
+      if (!file) {
+        file = request(path, fuelPriceFileSchema, { baseUrl: "" });
+        // Let the next lookup retry a failed read
+        file.catch(() => {
+          file = null;
+        });
+      }
+      const { regions, default_price_per_gallon } = await untilAborted(
+        file,
+        signal
+      );
+      const region = regions.find(
+        ({ bounds: [[west, south], [east, north]] }) =>
+          lng >= west && lng <= east && lat >= south && lat <= north
+      );
+      return region?.price_per_gallon ?? default_price_per_gallon;
+    },
+  };
+};
+
+/**
+ * The configured source: `VITE_FUEL_PRICE_SOURCE=api` asks the backend,
+ * anything else reads `VITE_FUEL_PRICE_FILE` (default /fuel-prices.json).
+ */
+export const fuelPriceSource: FuelPriceSource =
+  import.meta.env.VITE_FUEL_PRICE_SOURCE === "api"
+    ? apiFuelPriceSource
+    : createFileFuelPriceSource(
+        import.meta.env.VITE_FUEL_PRICE_FILE || "/fuel-prices.json"
+      );
@@ -0,0 +1,87 @@
+import { ApiError, request } from "./client";
+import { geocodeResponseSchema, type GeocodeFeature } from "./schemas";
+import type { Location } from "./types";
+
+const getDisplayName = (properties: GeocodeFeature["properties"]): string => {
+  if (properties.label) {
+    return properties.label;
+  }
+
+  if (properties.locality && properties.region) {
+    return `${properties.locality}, ${properties.region}`;
+  }
+
+  if (properties.name && properties.region) {
+    return `${properties.name}, ${properties.region}`;
+  }
+
+  if (properties.name) {
+    return properties.name;
+  }
+
+  return "Unknown location";
+};
+
+const toLocation = (feature: GeocodeFeature): Location => {
+  const props = feature.properties;
+  return {
+    id: String(feature.id || props.id || Math.random()),
+    name: getDisplayName(props),
+    coords: feature.geometry.coordinates,
+    locality: props.locality ?? undefined,
+    region: props.region ?? undefined,
+    country: props.country || "US",
+  };
+};
+
+/** Place suggestions for a partial query from `GET /geocode/autocomplete/`. */
+export const geocodeAutocomplete = async (
+  query: string,
+  signal?: AbortSignal
+): Promise<Location[]> => {
+  const data = await request("/geocode/autocomplete/", geocodeResponseSchema, {
+    query: { q: query },
+    signal,
+    timeoutMs: 10_000,
+    retries: 1,
+  });
+
+  if (data.error) {
+    throw new ApiError("http", data.error, { status: 200, details: data });
+  }
+
+  return (data.features ?? []).map(toLocation);
+};
+
+/** A location named after its own coordinates, for points with no place. */
+export const coordinateLocation = (coords: [number, number]): Location => ({
+  id: `coords:${coords[0].toFixed(5)},${coords[1].toFixed(5)}`,
+  name: `${coords[1].toFixed(4)}, ${coords[0].toFixed(4)}`,
+  coords,
+});
+
+/**
+ * The nearest named place for a [lng, lat] point from
+ * `GET /geocode/reverse/?lat=&lng=`. The returned location keeps the exact
+ * point that was asked for; only the name comes from the geocoder.
+ */
+export const reverseGeocode = async (
+  coords: [number, number],
+  signal?: AbortSignal
+): Promise<Location> => {
+  const data = await request("/geocode/reverse/", geocodeResponseSchema, {
+    query: { lat: coords[1], lng: coords[0] },
+    signal,
+    timeoutMs: 10_000,
+    retries: 1,
+  });
+
+  if (data.error) {
+    throw new ApiError("http", data.error, { status: 200, details: data });
+  }
+
+  const feature = data.features?.[0];
+  return feature
+    ? { ...toLocation(feature), id: coordinateLocation(coords).id, coords }
+    : coordinateLocation(coords);
+};
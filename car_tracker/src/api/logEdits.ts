@@ -0,0 +1,21 @@
+import { request } from "./client";
+import { logEditSchema, logEditsSchema } from "./schemas";
+import type { CreateLogEditRequest, LogEdit } from "./types";
+
+/** Every edit of a trip's daily logs, oldest first. */
+export const listLogEdits = (
+  tripId: number,
+  signal?: AbortSignal
+): Promise<LogEdit[]> =>
+  request(`/trips/${tripId}/log-edits/`, logEditsSchema, { signal });
+
+export const createLogEdit = (
+  tripId: number,
+  body: CreateLogEditRequest,
+  signal?: AbortSignal
+): Promise<LogEdit> =>
+  request(`/trips/${tripId}/log-edits/`, logEditSchema, {
+    method: "POST",
+    body,
+    signal,
+  });
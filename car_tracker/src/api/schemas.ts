@@ -0,0 +1,225 @@
+import { z } from "zod";
+import type {
+  DailyLog,
+  Driver,
+  DriverProfile,
+  FleetVehicle,
+  HosRuleSetId,
+  LogEdit,
+  LogEntry,
+  PlannedStop,
+  RouteSummary,
+  StopType,
+  TripPage,
+  TripResult,
+  TripSegment,
+  Truck,
+} from "./types";
+import { isValidTimeZone } from "../utils/time";
+
+// The backend serialises blanks as null; the app treats them as absent
+const optional = <T extends z.ZodType>(schema: T) =>
+  schema.nullish().transform((value) => value ?? undefined);
+
+// An unknown zone is dropped so times fall back to the terminal's or browser's
+const timeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone)
+  .optional()
+  .catch(undefined);
+
+// [lng, lat], as returned by the geocoder
+const coordsSchema = z.tuple([z.coerce.number(), z.coerce.number()]);
+
+export const hosRuleSetIdSchema: z.ZodType<HosRuleSetId> = z.enum([
+  "property_70_8",
+  "property_60_7",
+  "short_haul_150",
+]);
+
+export const stopTypeSchema: z.ZodType<StopType> = z.enum([
+  "current",
+  "pickup",
+  "dropoff",
+  "waypoint",
+]);
+
+export const tripSegmentSchema: z.ZodType<TripSegment> = z.object({
+  segment_type: z.string(),
+  segment_type_display: optional(z.string()),
+  sequence_number: z.coerce.number(),
+  start_time: z.string(),
+  end_time: z.string(),
+  formatted_start_time: optional(z.string()),
+  formatted_end_time: optional(z.string()),
+  duration_hours: z.coerce.number(),
+  distance_miles: z.coerce.number(),
+  location: z.string(),
+  coords: optional(coordsSchema),
+  timezone: timeZoneSchema,
+});
+
+export const logEntrySchema: z.ZodType<LogEntry> = z.object({
+  duty_status: z.string(),
+  duty_status_display: optional(z.string()),
+  start_hour: z.coerce.number(),
+  end_hour: z.coerce.number(),
+  location: z.string().nullish().transform((value) => value ?? ""),
+});
+
+export const dailyLogSchema: z.ZodType<DailyLog> = z.object({
+  log_date: z.string(),
+  formatted_date: optional(z.string()),
+  day_number: z.coerce.number(),
+  total_miles: z.coerce.number(),
+  off_duty_hours: z.coerce.number(),
+  sleeper_berth_hours: z.coerce.number(),
+  driving_hours: z.coerce.number(),
+  on_duty_hours: z.coerce.number(),
+  entries: optional(z.array(logEntrySchema)),
+});
+
+export const logEditSchema: z.ZodType<LogEdit> = z.object({
+  id: z.number(),
+  day_number: z.coerce.number(),
+  annotation: z.string(),
+  before: z.array(logEntrySchema),
+  after: z.array(logEntrySchema),
+  edited_at: z.string(),
+});
+
+export const logEditsSchema = z.array(logEditSchema);
+
+export const plannedStopSchema: z.ZodType<PlannedStop> = z.object({
+  stop_type: stopTypeSchema,
+  name: z.string(),
+  coords: coordsSchema,
+  dwell_hours: optional(z.coerce.number()),
+});
+
+export const routeSummarySchema: z.ZodType<RouteSummary> = z.looseObject({
+  geometry: z.unknown().optional(),
+  encoded_polyline: optional(z.string()),
+  polyline_precision: optional(z.number()),
+});
+
+export const tripResultSchema: z.ZodType<TripResult> = z.object({
+  id: z.number(),
+  current_location: z.coerce.string(),
+  pickup_location: z.coerce.string(),
+  dropoff_location: z.coerce.string(),
+  stops: optional(z.array(plannedStopSchema)),
+  current_cycle_used: z.coerce.string(),
+  total_distance: z.coerce.string(),
+  total_duration: z.coerce.string(),
+  fuel_stops: z.coerce.number(),
+  required_rest_stops: z.coerce.number(),
+  segments: optional(z.array(tripSegmentSchema)),
+  daily_logs: optional(z.array(dailyLogSchema)),
+  // An unknown rule set is treated as the default rather than failing the trip
+  hos_rule_set: hosRuleSetIdSchema.optional().catch(undefined),
+  home_terminal_timezone: timeZoneSchema,
+  route_summary: optional(z.union([z.string(), routeSummarySchema])),
+  replanned_from: optional(z.number()),
+  tank_capacity_gallons: optional(z.coerce.number()),
+  average_mpg: optional(z.coerce.number()),
+  starting_fuel_level: optional(z.coerce.number()),
+  created_at: z.string(),
+});
+
+export const tripPageSchema: z.ZodType<TripPage> = z.union([
+  z.object({
+    count: z.number(),
+    next: z.string().nullable(),
+    previous: z.string().nullable(),
+    results: z.array(tripResultSchema),
+  }),
+  // Older backends return the list unpaginated
+  z.array(tripResultSchema).transform((results) => ({
+    count: results.length,
+    next: null,
+    previous: null,
+    results,
+  })),
+]);
+
+export const driverSchema: z.ZodType<Driver> = z.object({
+  id: z.number(),
+  name: z.string(),
+});
+
+export const driversSchema = z.array(driverSchema);
+
+export const driverProfileSchema: z.ZodType<DriverProfile> = z.object({
+  id: z.number(),
+  name: z.string(),
+  hos_rule_set: hosRuleSetIdSchema.optional().catch(undefined),
+  home_terminal_timezone: timeZoneSchema,
+  recent_logs: z.array(dailyLogSchema),
+});
+
+export const truckSchema: z.ZodType<Truck> = z.object({
+  id: z.number(),
+  unit_number: z.coerce.string(),
+});
+
+export const fleetVehicleSchema: z.ZodType<FleetVehicle> = z.object({
+  truck: truckSchema,
+  driver: driverSchema.nullable(),
+  active_trip: tripResultSchema.nullable(),
+});
+
+export const fleetSchema = z.array(fleetVehicleSchema);
+
+export const geocodeFeatureSchema = z.object({
+  id: z.union([z.string(), z.number()]).nullish(),
+  properties: z.looseObject({
+    id: z.union([z.string(), z.number()]).nullish(),
+    label: z.string().nullish(),
+    name: z.string().nullish(),
+    locality: z.string().nullish(),
+    region: z.string().nullish(),
+    country: z.string().nullish(),
+  }),
+  geometry: z.object({ coordinates: coordsSchema }),
+});
+
+export const geocodeResponseSchema = z.object({
+  features: z.array(geocodeFeatureSchema).nullish(),
+  error: z.string().nullish(),
+});
+
+export type GeocodeFeature = z.infer<typeof geocodeFeatureSchema>;
+
+/** One message of the live position feed (`/trips/:id/positions/`). */
+export const positionEventSchema = z.object({
+  lat: z.coerce.number(),
+  lng: z.coerce.number(),
+  timestamp: z.union([z.number(), z.string()]),
+  speed_mph: z.coerce.number().nullish(),
+  accuracy_m: z.coerce.number().nullish(),
+});
+
+/** Body of `GET /fuel-prices/?lat=&lng=`. */
+export const fuelPriceSchema = z.object({
+  price_per_gallon: z.coerce.number().nullable(),
+});
+
+/**
+ * A fuel price file: regional diesel prices by bounding box, checked in
+ * order, and a price for anywhere else.
+ */
+export const fuelPriceFileSchema = z.object({
+  updated: optional(z.string()),
+  default_price_per_gallon: z.coerce.number().nullable(),
+  regions: z.array(
+    z.object({
+      name: z.string(),
+      /** [[west, south], [east, north]] */
+      bounds: z.tuple([coordsSchema, coordsSchema]),
+      price_per_gallon: z.coerce.number(),
+    })
+  ),
+});
+
+export type FuelPriceFile = z.infer<typeof fuelPriceFileSchema>;
@@ -0,0 +1,36 @@
+import { positionEventSchema } from "./schemas";
+import type { PositionFix } from "../utils/tracking";
+
+/**
+ * Server-sent events stream of a trip's positions. `VITE_TRACKING_URL` points
+ * it at another server, such as the mock in mock/tracking-server.mjs.
+ */
+export const positionFeedUrl = (tripId: number): string =>
+  `${
+    import.meta.env.VITE_TRACKING_URL || import.meta.env.VITE_API_URL
+  }/trips/${tripId}/positions/`;
+
+/** Parses one feed message, or returns null for anything malformed. */
+export const parsePositionEvent = (data: string): PositionFix | null => {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    return null;
+  }
+
+  const parsed = positionEventSchema.safeParse(json);
+  if (!parsed.success) return null;
+
+  const { lat, lng, timestamp, speed_mph, accuracy_m } = parsed.data;
+  const time =
+    typeof timestamp === "number" ? timestamp : Date.parse(timestamp);
+  if (Number.isNaN(time)) return null;
+
+  return {
+    coords: [lat, lng],
+    timestamp: time,
+    speedMph: speed_mph ?? undefined,
+    accuracyMeters: accuracy_m ?? undefined,
+  };
+};
@@ -0,0 +1,39 @@
+import { request } from "./client";
+import { tripPageSchema, tripResultSchema } from "./schemas";
+import type { CreateTripRequest, TripPage, TripResult } from "./types";
+
+export interface ListTripsParams {
+  page: number;
+  pageSize: number;
+  /** Matches any stop name. */
+  search?: string;
+  /** YYYY-MM-DD, filters on `created_at`. */
+  date?: string;
+}
+
+export const createTrip = (
+  body: CreateTripRequest,
+  signal?: AbortSignal
+): Promise<TripResult> =>
+  // Planning can take a while for long multi-stop routes
+  request("/trips/", tripResultSchema, {
+    method: "POST",
+    body,
+    signal,
+    timeoutMs: 60_000,
+  });
+
+export const listTrips = (
+  { page, pageSize, search, date }: ListTripsParams,
+  signal?: AbortSignal
+): Promise<TripPage> =>
+  request("/trips/", tripPageSchema, {
+    query: { page, page_size: pageSize, search, date },
+    signal,
+  });
+
+export const getTrip = (
+  id: number | string,
+  signal?: AbortSignal
+): Promise<TripResult> =>
+  request(`/trips/${id}/`, tripResultSchema, { signal });
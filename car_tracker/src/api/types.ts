@@ -0,0 +1,182 @@
+/**
+ * Shapes of the backend's trip and geocoding resources. Responses are checked
+ * against the matching schemas in ./schemas before they reach the app.
+ */
+
+export type HosRuleSetId = "property_70_8" | "property_60_7" | "short_haul_150";
+
+export interface TripSegment {
+  segment_type: string;
+  segment_type_display?: string;
+  sequence_number: number;
+  start_time: string;
+  end_time: string;
+  formatted_start_time?: string;
+  formatted_end_time?: string;
+  duration_hours: number;
+  distance_miles: number;
+  location: string;
+  coords?: [number, number]; // [lng, lat], when the backend knows the stop
+  /** IANA zone at the segment's location (where a drive starts). */
+  timezone?: string;
+}
+
+export interface LogEntry {
+  duty_status: string;
+  duty_status_display?: string;
+  start_hour: number;
+  end_hour: number;
+  location: string;
+}
+
+export interface DailyLog {
+  log_date: string;
+  formatted_date?: string;
+  day_number: number;
+  total_miles: number;
+  off_duty_hours: number;
+  sleeper_berth_hours: number;
+  driving_hours: number;
+  on_duty_hours: number;
+  entries?: LogEntry[];
+}
+
+/**
+ * One correction of a trip's daily log. Edits are append-only: each keeps the
+ * day's entries before and after it, and the last one for a day is current.
+ */
+export interface LogEdit {
+  id: number;
+  day_number: number;
+  annotation: string;
+  before: LogEntry[];
+  after: LogEntry[];
+  edited_at: string;
+}
+
+/** Body of `POST /trips/:id/log-edits/`. */
+export type CreateLogEditRequest = Omit<LogEdit, "id" | "edited_at">;
+
+/** A geocoded place, as picked in LocationSelect. */
+export interface Location {
+  id: string;
+  name: string;
+  coords: [number, number]; // [lng, lat]
+  locality?: string;
+  region?: string;
+  country?: string;
+}
+
+export type StopType = "current" | "pickup" | "dropoff" | "waypoint";
+
+/** A stop of a trip as sent to and returned by /trips/, in route order. */
+export interface PlannedStop {
+  stop_type: StopType;
+  name: string;
+  coords: [number, number]; // [lng, lat]
+  dwell_hours?: number;
+}
+
+/**
+ * Route geometry returned by the backend. The road path is either a GeoJSON
+ * geometry or an encoded polyline; see utils/routeGeometry for accepted shapes.
+ */
+export interface RouteSummary {
+  geometry?: unknown;
+  encoded_polyline?: string;
+  polyline_precision?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Tank and consumption figures fuel is planned with. The backend places fuel
+ * stops within the tank's range; costs are worked out in utils/fuelPlan.
+ */
+export interface FuelSettings {
+  tank_capacity_gallons: number;
+  average_mpg: number;
+  /** Share of the tank (0..1) full at the start. */
+  starting_fuel_level: number;
+}
+
+export interface TripResult {
+  id: number;
+  current_location: string;
+  pickup_location: string;
+  dropoff_location: string;
+  stops?: PlannedStop[];
+  current_cycle_used: string;
+  total_distance: string;
+  total_duration: string;
+  fuel_stops: number;
+  required_rest_stops: number;
+  segments?: TripSegment[];
+  daily_logs?: DailyLog[];
+  hos_rule_set?: HosRuleSetId;
+  /** IANA zone the daily logs are kept in. */
+  home_terminal_timezone?: string;
+  route_summary?: RouteSummary | string;
+  /** Id of the trip this plan replaced when it was replanned mid-trip. */
+  replanned_from?: number;
+  /** Fuel inputs the trip was planned with, for backends that echo them. */
+  tank_capacity_gallons?: number;
+  average_mpg?: number;
+  starting_fuel_level?: number;
+  created_at: string;
+}
+
+/** One page of `GET /trips/`. */
+export interface TripPage {
+  count: number;
+  next: string | null;
+  previous: string | null;
+  results: TripResult[];
+}
+
+/** Body of `POST /trips/`. */
+export interface CreateTripRequest extends Partial<FuelSettings> {
+  current_location: Pick<PlannedStop, "name" | "coords">;
+  pickup_location?: Pick<PlannedStop, "name" | "coords">;
+  dropoff_location?: Pick<PlannedStop, "name" | "coords">;
+  stops: PlannedStop[];
+  current_cycle_used: number;
+  hos_rule_set: HosRuleSetId;
+  /** IANA zone the 24-hour log days are counted in. */
+  home_terminal_timezone?: string;
+  /** The planning driver, and their driving hours left in the current shift. */
+  driver_id?: number;
+  remaining_driving_hours?: number;
+  /** ISO time to plan from; defaults to now on the backend. */
+  start_time?: string;
+  /** Replanning: the trip being replaced and the part of it already driven. */
+  replanned_from?: number;
+  completed_segments?: TripSegment[];
+}
+
+export interface Driver {
+  id: number;
+  name: string;
+}
+
+/**
+ * `GET /drivers/:id/`: a driver with their duty-status logs for the last
+ * 8 days, oldest first, from which their cycle and shift hours are worked out.
+ */
+export interface DriverProfile extends Driver {
+  hos_rule_set?: HosRuleSetId;
+  /** IANA zone of the driver's home terminal; log days start at its midnight. */
+  home_terminal_timezone?: string;
+  recent_logs: DailyLog[];
+}
+
+export interface Truck {
+  id: number;
+  unit_number: string;
+}
+
+/** One row of `GET /fleet/`: a truck, who drives it and the trip it is on. */
+export interface FleetVehicle {
+  truck: Truck;
+  driver: Driver | null;
+  active_trip: TripResult | null;
+}
@@ -0,0 +1,44 @@
+import { LayersControl, TileLayer } from "react-leaflet";
+import { selectTileSource, useTileSource } from "../hooks/useTileSource";
+import { TILE_SOURCES } from "../utils/mapTiles";
+
+/**
+ * The background tiles of a map, from the configured sources. With more than
+ * one source a layer switch is shown, and the pick carries over to every map.
+ */
+const BaseTileLayer: React.FC = () => {
+  const selected = useTileSource();
+
+  if (TILE_SOURCES.length === 1) {
+    return (
+      <TileLayer
+        attribution={selected.attribution}
+        url={selected.url}
+        maxZoom={selected.maxZoom}
+      />
+    );
+  }
+
+  // `checked` is only read when the control mounts, so remount it when the
+  // pick changes elsewhere (another map, or the stored pick loading)
+  return (
+    <LayersControl key={selected.id} position="topright">
+      {TILE_SOURCES.map((source) => (
+        <LayersControl.BaseLayer
+          key={source.id}
+          name={source.label}
+          checked={source.id === selected.id}
+        >
+          <TileLayer
+            attribution={source.attribution}
+            url={source.url}
+            maxZoom={source.maxZoom}
+            eventHandlers={{ add: () => selectTileSource(source.id) }}
+          />
+        </LayersControl.BaseLayer>
+      ))}
+    </LayersControl>
+  );
+};
+
+export default BaseTileLayer;
@@ -0,0 +1,209 @@
+import { useMemo } from "react";
+import { DollarSign, Download } from "lucide-react";
+import type { TripResult } from "../api/types";
+import { useCostSettings } from "../hooks/useCostSettings";
+import { formatCurrency, type FuelPlan } from "../utils/fuelPlan";
+import {
+  estimateTripCost,
+  exportCostCsv,
+  MAX_MARGIN_PERCENT,
+  type CostSettings,
+  type PayBasis,
+} from "../utils/tripCost";
+
+interface CostPanelProps {
+  trip: TripResult;
+  fuelPlan: FuelPlan;
+  fuelPriced: boolean;
+}
+
+const inputClass =
+  "w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm";
+
+interface RateInputProps {
+  id: string;
+  label: string;
+  value: number;
+  step: string;
+  max?: number;
+  onChange: (value: number) => void;
+}
+
+const RateInput: React.FC<RateInputProps> = ({
+  id,
+  label,
+  value,
+  step,
+  max = Infinity,
+  onChange,
+}) => (
+  <div>
+    <label htmlFor={id} className="block text-xs text-gray-700 mb-1">
+      {label}
+    </label>
+    <input
+      id={id}
+      type="number"
+      value={value}
+      onChange={(e) =>
+        onChange(Math.min(Math.max(parseFloat(e.target.value) || 0, 0), max))
+      }
+      min="0"
+      max={max === Infinity ? undefined : max}
+      step={step}
+      className={inputClass}
+    />
+  </div>
+);
+
+const perMile = (amount: number | null) =>
+  amount === null ? "—" : `${formatCurrency(amount)}/mi`;
+
+/**
+ * What the trip costs to run and the rate to quote for it, from the plan and
+ * dispatch's rates. The rates are remembered; the estimate exports as CSV.
+ */
+const CostPanel: React.FC<CostPanelProps> = ({
+  trip,
+  fuelPlan,
+  fuelPriced,
+}) => {
+  const [settings, updateSettings] = useCostSettings();
+  const estimate = useMemo(
+    () => estimateTripCost(trip, fuelPlan, fuelPriced, settings),
+    [trip, fuelPlan, fuelPriced, settings]
+  );
+
+  const setting =
+    (key: Exclude<keyof CostSettings, "payBasis">) => (value: number) =>
+      updateSettings({ [key]: value });
+
+  return (
+    <div className="p-4 bg-emerald-50 border border-emerald-200 rounded-lg text-sm">
+      <div className="flex items-center mb-3">
+        <h3 className="flex items-center font-semibold text-emerald-900 mr-auto">
+          <DollarSign className="w-4 h-4 mr-2" aria-hidden="true" />
+          Cost Estimate
+        </h3>
+        <button
+          type="button"
+          onClick={() => exportCostCsv(trip, estimate, settings)}
+          className="flex items-center px-3 py-1.5 text-sm font-medium text-emerald-700 border border-emerald-300 rounded-md hover:bg-emerald-100"
+        >
+          <Download className="w-4 h-4 mr-1" aria-hidden="true" />
+          Export CSV
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <div>
+          <label htmlFor="pay-basis" className="block text-xs text-gray-700 mb-1">
+            Driver pay
+          </label>
+          <select
+            id="pay-basis"
+            value={settings.payBasis}
+            onChange={(e) =>
+              updateSettings({ payBasis: e.target.value as PayBasis })
+            }
+            className={`${inputClass} bg-white`}
+          >
+            <option value="mile">Per mile</option>
+            <option value="hour">Per hour</option>
+          </select>
+        </div>
+        {settings.payBasis === "mile" ? (
+          <RateInput
+            id="pay-per-mile"
+            label="Pay per mile ($)"
+            value={settings.payPerMile}
+            step="0.01"
+            onChange={setting("payPerMile")}
+          />
+        ) : (
+          <RateInput
+            id="pay-per-hour"
+            label="Pay per hour ($)"
+            value={settings.payPerHour}
+            step="0.5"
+            onChange={setting("payPerHour")}
+          />
+        )}
+        <RateInput
+          id="layover-per-rest"
+          label="Layover per rest period ($)"
+          value={settings.layoverPerRest}
+          step="5"
+          onChange={setting("layoverPerRest")}
+        />
+        <RateInput
+          id="tolls"
+          label="Tolls ($)"
+          value={settings.tolls}
+          step="1"
+          onChange={setting("tolls")}
+        />
+        <RateInput
+          id="detention-hours"
+          label="Detention (hours)"
+          value={settings.detentionHours}
+          step="0.25"
+          onChange={setting("detentionHours")}
+        />
+        <RateInput
+          id="detention-per-hour"
+          label="Detention per hour ($)"
+          value={settings.detentionPerHour}
+          step="5"
+          onChange={setting("detentionPerHour")}
+        />
+        <RateInput
+          id="margin-percent"
+          label="Margin (%)"
+          value={settings.marginPercent}
+          step="1"
+          max={MAX_MARGIN_PERCENT}
+          onChange={setting("marginPercent")}
+        />
+      </div>
+
+      <table className="w-full">
+        <tbody>
+          {estimate.lines.map((line) => (
+            <tr key={line.label} className="border-b border-emerald-100">
+              <td className="py-1 pr-2">{line.label}</td>
+              <td className="py-1 pr-2 text-gray-600">{line.basis}</td>
+              <td className="py-1 text-right">{formatCurrency(line.amount)}</td>
+            </tr>
+          ))}
+          <tr className="font-semibold">
+            <td className="pt-2 pr-2">Total cost</td>
+            <td className="pt-2 pr-2 text-gray-600">
+              {perMile(estimate.costPerMile)}
+            </td>
+            <td className="pt-2 text-right">
+              {formatCurrency(estimate.total)}
+            </td>
+          </tr>
+          <tr className="font-semibold text-emerald-800">
+            <td className="py-1 pr-2">Suggested rate</td>
+            <td className="py-1 pr-2">
+              {perMile(estimate.suggestedRatePerMile)}
+            </td>
+            <td className="py-1 text-right">
+              {formatCurrency(estimate.suggestedRate)}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {estimate.fuelIncomplete && (
+        <p className="mt-2 text-xs text-amber-800">
+          Some fuel has no price yet, so the fuel cost is low.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CostPanel;
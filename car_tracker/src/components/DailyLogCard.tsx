@@ -0,0 +1,95 @@
+import { Link } from "react-router";
+import type { DailyLog, LogEntry } from "../api/types";
+import type { TripLocationState } from "../hooks/useTrip";
+import type { HosRuleSet } from "../utils/hosRules";
+import EldLogGraph from "./EldLogGraph";
+
+interface DailyLogCardProps {
+  dailyLog: DailyLog;
+  ruleSet: HosRuleSet;
+  /** Home terminal zone the log day runs in. */
+  timeZone?: string;
+  href?: string;
+  linkState?: TripLocationState;
+  /** Puts the graph in edit mode; see EldLogGraph. */
+  onEntriesChange?: (entries: LogEntry[]) => void;
+  /** Hours to shade on the graph; the card is outlined while set. */
+  highlight?: { start_hour: number; end_hour: number };
+}
+
+const DailyLogCard: React.FC<DailyLogCardProps> = ({
+  dailyLog,
+  ruleSet,
+  timeZone,
+  href,
+  linkState,
+  onEntriesChange,
+  highlight,
+}) => {
+  return (
+    <div
+      className={`bg-white border rounded-lg p-4 mb-4 ${
+        highlight ? "ring-2 ring-amber-400" : ""
+      }`}
+    >
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">
+            Day {dailyLog.day_number} -{" "}
+            {dailyLog.formatted_date || dailyLog.log_date}
+          </h3>
+          {timeZone && (
+            <div className="text-xs text-gray-600">
+              Home terminal time ({timeZone})
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-4 text-sm text-gray-600">
+          <span>Total Miles: {dailyLog.total_miles}</span>
+          {href && (
+            <Link
+              to={href}
+              state={linkState}
+              className="text-blue-600 hover:underline"
+            >
+              Open log
+            </Link>
+          )}
+        </div>
+      </div>
+
+      <EldLogGraph
+        dailyLog={dailyLog}
+        onEntriesChange={onEntriesChange}
+        highlight={highlight}
+      />
+
+      <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div className="text-center p-3 bg-red-50 rounded">
+          <div className="font-semibold text-red-700">Driving</div>
+          <div className="text-lg">{dailyLog.driving_hours}h</div>
+          <div className="text-xs text-gray-600">
+            Max: {ruleSet.limits.maxDrivingHours}h
+          </div>
+        </div>
+        <div className="text-center p-3 bg-yellow-50 rounded">
+          <div className="font-semibold text-yellow-700">On Duty</div>
+          <div className="text-lg">{dailyLog.on_duty_hours}h</div>
+          <div className="text-xs text-gray-600">Non-driving work</div>
+        </div>
+        <div className="text-center p-3 bg-blue-50 rounded">
+          <div className="font-semibold text-blue-700">Sleeper</div>
+          <div className="text-lg">{dailyLog.sleeper_berth_hours}h</div>
+          <div className="text-xs text-gray-600">Required rest</div>
+        </div>
+        <div className="text-center p-3 bg-gray-50 rounded">
+          <div className="font-semibold text-gray-700">Off Duty</div>
+          <div className="text-lg">{dailyLog.off_duty_hours}h</div>
+          <div className="text-xs text-gray-600">Personal time</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DailyLogCard;
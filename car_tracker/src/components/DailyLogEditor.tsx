@@ -0,0 +1,260 @@
+import { useId, useState } from "react";
+import { History, Loader2, Pencil } from "lucide-react";
+import type {
+  CreateLogEditRequest,
+  DailyLog,
+  LogEdit,
+  LogEntry,
+} from "../api/types";
+import type { HosRuleSet } from "../utils/hosRules";
+import {
+  DUTY_STATUS_ROWS,
+  diffLogEntries,
+  formatHours,
+  normalizeLogEntries,
+  withDutyTotals,
+} from "../utils/eldLog";
+import DailyLogCard from "./DailyLogCard";
+
+interface DailyLogEditorProps {
+  dailyLog: DailyLog;
+  ruleSet: HosRuleSet;
+  timeZone?: string;
+  /** Earlier edits of this day, oldest first. */
+  edits: LogEdit[];
+  onSave: (edit: CreateLogEditRequest) => Promise<void>;
+}
+
+const describeEntries = (entries: LogEntry[]) =>
+  entries.length
+    ? entries
+        .map(
+          (entry) =>
+            `${
+              DUTY_STATUS_ROWS.find((row) => row.status === entry.duty_status)
+                ?.label ?? entry.duty_status
+            } ${formatHours(entry.start_hour)}–${formatHours(entry.end_hour)}`
+        )
+        .join(", ")
+    : "—";
+
+/**
+ * A daily log whose graph can be corrected. Each change must be annotated
+ * before it is saved, and every saved edit is listed with the spans it
+ * replaced.
+ */
+const DailyLogEditor: React.FC<DailyLogEditorProps> = ({
+  dailyLog,
+  ruleSet,
+  timeZone,
+  edits,
+  onSave,
+}) => {
+  const baseId = useId();
+  const annotationId = `${baseId}-annotation`;
+  const errorId = `${baseId}-error`;
+  const [editing, setEditing] = useState(false);
+  const [pending, setPending] = useState<LogEntry[] | null>(null);
+  const [annotation, setAnnotation] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loggedEntries = normalizeLogEntries(dailyLog.entries);
+  const shownLog = pending ? withDutyTotals(dailyLog, pending) : dailyLog;
+  const pendingDiff = pending && diffLogEntries(loggedEntries, pending);
+  const hasChanges =
+    !!pendingDiff &&
+    (pendingDiff.removed.length > 0 || pendingDiff.added.length > 0);
+
+  // Edited back to what was logged: nothing left to save
+  const handleEntriesChange = (entries: LogEntry[]) => {
+    const { removed, added } = diffLogEntries(loggedEntries, entries);
+    setPending(removed.length || added.length ? entries : null);
+  };
+
+  const discard = () => {
+    setPending(null);
+    setAnnotation("");
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!pending || !hasChanges) return;
+    if (!annotation.trim()) {
+      setError("Describe why the log was changed");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await onSave({
+        day_number: dailyLog.day_number,
+        annotation: annotation.trim(),
+        before: loggedEntries,
+        after: pending,
+      });
+      discard();
+    } catch (err) {
+      console.error("Log edit error:", err);
+      setError(err instanceof Error ? err.message : "Failed to save the edit");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-end mb-2">
+        {!editing ? (
+          <button
+            type="button"
+            onClick={() => setEditing(true)}
+            className="flex items-center px-3 py-1.5 text-sm font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50"
+          >
+            <Pencil className="w-4 h-4 mr-1" aria-hidden="true" />
+            Edit log
+          </button>
+        ) : (
+          !pending && (
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50"
+            >
+              Done editing
+            </button>
+          )
+        )}
+      </div>
+
+      {editing && !pending && (
+        <p className="mb-2 text-sm text-gray-600">
+          Drag a change of status sideways, or a span to another row. The arrow
+          keys do the same for the focused handle.
+        </p>
+      )}
+
+      <DailyLogCard
+        dailyLog={shownLog}
+        ruleSet={ruleSet}
+        timeZone={timeZone}
+        onEntriesChange={editing && !saving ? handleEntriesChange : undefined}
+      />
+
+      {pendingDiff && hasChanges && (
+        <form
+          className="mb-4 p-4 border border-blue-200 bg-blue-50 rounded-lg"
+          noValidate
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <div className="text-sm mb-2">
+            <div>
+              <span className="font-medium">Was:</span>{" "}
+              {describeEntries(pendingDiff.removed)}
+            </div>
+            <div>
+              <span className="font-medium">Now:</span>{" "}
+              {describeEntries(pendingDiff.added)}
+            </div>
+          </div>
+          <label
+            htmlFor={annotationId}
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Reason for the change (required)
+          </label>
+          <textarea
+            id={annotationId}
+            value={annotation}
+            onChange={(e) => setAnnotation(e.target.value)}
+            required
+            aria-invalid={!!error}
+            aria-describedby={error ? errorId : undefined}
+            rows={2}
+            placeholder="e.g. Yard move recorded as driving"
+            className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          {error && (
+            <div
+              id={errorId}
+              role="alert"
+              className="text-sm text-red-700 mt-1"
+            >
+              {error}
+            </div>
+          )}
+          <div className="flex gap-2 mt-3">
+            <button
+              type="submit"
+              disabled={saving || !hasChanges || !annotation.trim()}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+            >
+              {saving && (
+                <Loader2
+                  className="w-4 h-4 mr-2 animate-spin"
+                  aria-hidden="true"
+                />
+              )}
+              Save edit
+            </button>
+            <button
+              type="button"
+              onClick={discard}
+              disabled={saving}
+              className="px-4 py-2 border rounded-md hover:bg-white text-sm"
+            >
+              Discard
+            </button>
+          </div>
+        </form>
+      )}
+
+      {edits.length > 0 && (
+        <div className="p-4 border rounded-lg">
+          <h3 className="font-semibold mb-3 flex items-center">
+            <History className="w-4 h-4 mr-2 text-blue-600" aria-hidden="true" />
+            Edit History
+          </h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-2 font-medium">Edited</th>
+                <th className="py-2 pr-2 font-medium">Original</th>
+                <th className="py-2 pr-2 font-medium">Edited to</th>
+                <th className="py-2 font-medium">Annotation</th>
+              </tr>
+            </thead>
+            <tbody>
+              {edits.map((edit) => {
+                const { removed, added } = diffLogEntries(
+                  edit.before,
+                  edit.after
+                );
+                return (
+                  <tr key={edit.id} className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-2 whitespace-nowrap">
+                      {new Date(edit.edited_at).toLocaleString([], {
+                        dateStyle: "short",
+                        timeStyle: "short",
+                      })}
+                    </td>
+                    <td className="py-2 pr-2">{describeEntries(removed)}</td>
+                    <td className="py-2 pr-2">{describeEntries(added)}</td>
+                    <td className="py-2">{edit.annotation}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DailyLogEditor;
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { Loader2, User } from "lucide-react";
+import { isAbortError } from "../api/client";
+import { getDriver, listDrivers } from "../api/drivers";
+import type { Driver, DriverProfile } from "../api/types";
+import { formatHours } from "../utils/eldLog";
+
+interface DriverSelectProps {
+  value: DriverProfile | null;
+  onChange: (driver: DriverProfile | null) => void;
+}
+
+/**
+ * Picks the driver a trip is planned for and loads their profile, whose last
+ * 8 days of logs are listed so the computed hours can be checked.
+ */
+const DriverSelect: React.FC<DriverSelectProps> = ({ value, onChange }) => {
+  const [drivers, setDrivers] = useState<Driver[] | null>(null);
+  const [loadingId, setLoadingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    listDrivers(controller.signal)
+      .then(setDrivers)
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error("Driver list error:", err);
+        setDrivers([]);
+        setError("Could not load drivers; enter the hours by hand");
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  const handleChange = async (id: number | null) => {
+    setError(null);
+    if (id === null) {
+      onChange(null);
+      return;
+    }
+
+    try {
+      setLoadingId(id);
+      onChange(await getDriver(id));
+    } catch (err) {
+      console.error("Driver profile error:", err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to load driver";
+      setError(`Could not load the driver's logs: ${errorMessage}`);
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <label
+        htmlFor="driver"
+        className="block text-sm font-medium text-gray-700 mb-2"
+      >
+        <User className="inline-block w-4 h-4 mr-1" aria-hidden="true" />
+        Driver (Optional)
+      </label>
+      <div className="relative">
+        <select
+          id="driver"
+          aria-describedby={error ? "driver-error" : undefined}
+          value={loadingId ?? value?.id ?? ""}
+          disabled={!drivers || loadingId !== null}
+          onChange={(e) =>
+            handleChange(e.target.value ? Number(e.target.value) : null)
+          }
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors bg-white disabled:opacity-50"
+        >
+          <option value="">
+            {drivers ? "No driver selected" : "Loading drivers..."}
+          </option>
+          {drivers?.map((driver) => (
+            <option key={driver.id} value={driver.id}>
+              {driver.name}
+            </option>
+          ))}
+        </select>
+        {loadingId !== null && (
+          <Loader2
+            className="absolute right-8 top-3.5 w-4 h-4 animate-spin text-gray-500"
+            aria-hidden="true"
+          />
+        )}
+      </div>
+
+      {error && (
+        <div id="driver-error" role="alert" className="text-xs text-red-700 mt-1">
+          {error}
+        </div>
+      )}
+
+      {value && (
+        <details className="mt-2 text-xs text-gray-600">
+          <summary className="cursor-pointer">
+            {value.recent_logs.length} days of logs on file
+          </summary>
+          <table className="mt-1 w-full">
+            <thead>
+              <tr className="text-left">
+                <th className="font-medium pr-2">Date</th>
+                <th className="font-medium pr-2">Driving</th>
+                <th className="font-medium">All on duty</th>
+              </tr>
+            </thead>
+            <tbody>
+              {value.recent_logs.map((log) => (
+                <tr key={log.log_date}>
+                  <td className="pr-2">{log.formatted_date || log.log_date}</td>
+                  <td className="pr-2">{formatHours(log.driving_hours)}</td>
+                  <td>{formatHours(log.driving_hours + log.on_duty_hours)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default DriverSelect;
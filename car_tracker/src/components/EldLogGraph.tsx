@@ -0,0 +1,382 @@
+import { useRef, useState } from "react";
+import type { DailyLog, LogEntry } from "../api/types";
+import {
+  DUTY_STATUS_ROWS,
+  changeEntryStatus,
+  computeDutyTotals,
+  diffLogEntries,
+  formatHours,
+  moveTransition,
+  normalizeLogEntries,
+} from "../utils/eldLog";
+
+interface EldLogGraphProps {
+  dailyLog: DailyLog;
+  /**
+   * Edit mode: transitions can be dragged sideways and spans to another row,
+   * or moved with the arrow keys. Called with the entries after each change.
+   */
+  onEntriesChange?: (entries: LogEntry[]) => void;
+  /** Hours shaded across all rows, e.g. a segment picked on the timeline. */
+  highlight?: { start_hour: number; end_hour: number };
+}
+
+type Drag = { kind: "transition" | "span"; index: number; from: LogEntry[] };
+
+const LABEL_WIDTH = 150;
+const HOUR_WIDTH = 36;
+const GRID_WIDTH = HOUR_WIDTH * 24;
+const TOTAL_WIDTH = 70;
+const HEADER_HEIGHT = 24;
+const ROW_HEIGHT = 32;
+const GRID_HEIGHT = ROW_HEIGHT * DUTY_STATUS_ROWS.length;
+const REMARKS_HEIGHT = 110;
+const WIDTH = LABEL_WIDTH + GRID_WIDTH + TOTAL_WIDTH;
+const HEIGHT = HEADER_HEIGHT + GRID_HEIGHT + REMARKS_HEIGHT;
+
+const hourLabel = (hour: number) => {
+  if (hour === 0 || hour === 24) return "Mid";
+  if (hour === 12) return "Noon";
+  return String(hour % 12);
+};
+
+const xFor = (hour: number) => LABEL_WIDTH + hour * HOUR_WIDTH;
+
+const rowIndex = (status: string) =>
+  DUTY_STATUS_ROWS.findIndex((row) => row.status === status);
+
+const yFor = (status: string) =>
+  HEADER_HEIGHT + rowIndex(status) * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+/**
+ * Driver's daily log graph in the layout of the FMCSA paper log: four duty
+ * status rows over 24 hours with quarter-hour ticks, a continuous status line,
+ * per-row totals and a remark at every change of duty status.
+ */
+const EldLogGraph: React.FC<EldLogGraphProps> = ({
+  dailyLog,
+  onEntriesChange,
+  highlight,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [preview, setPreview] = useState<LogEntry[] | null>(null);
+
+  const loggedEntries = normalizeLogEntries(dailyLog.entries);
+  const entries = preview ?? loggedEntries;
+  const totals = computeDutyTotals(entries);
+  const totalHours = Object.values(totals).reduce((sum, h) => sum + h, 0);
+
+  const statusPath = entries
+    .map((entry, index) => {
+      const y = yFor(entry.duty_status);
+      const move = index === 0 ? `M ${xFor(entry.start_hour)} ${y}` : `V ${y}`;
+      return `${move} H ${xFor(entry.end_hour)}`;
+    })
+    .join(" ");
+
+  // Pointer position in graph units: hours across, duty status row down
+  const toGraph = (e: React.PointerEvent) => {
+    const matrix = svgRef.current?.getScreenCTM()?.inverse();
+    if (!matrix) return null;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix);
+    const row = Math.floor((point.y - HEADER_HEIGHT) / ROW_HEIGHT);
+    return {
+      hour: (point.x - LABEL_WIDTH) / HOUR_WIDTH,
+      status:
+        DUTY_STATUS_ROWS[Math.max(0, Math.min(DUTY_STATUS_ROWS.length - 1, row))]
+          .status,
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, kind: Drag["kind"], index: number) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ kind, index, from: loggedEntries });
+  };
+
+  const moveDrag = (e: React.PointerEvent) => {
+    const at = drag && toGraph(e);
+    if (!drag || !at) return;
+    setPreview(
+      drag.kind === "transition"
+        ? moveTransition(drag.from, drag.index, at.hour)
+        : changeEntryStatus(drag.from, drag.index, at.status)
+    );
+  };
+
+  // A click, or a key at the end of its range, leaves the entries as they
+  // were; that isn't an edit
+  const changeEntries = (next: LogEntry[]) => {
+    const { removed, added } = diffLogEntries(loggedEntries, next);
+    if (onEntriesChange && (removed.length || added.length)) {
+      onEntriesChange(next);
+    }
+  };
+
+  const endDrag = () => {
+    if (preview) changeEntries(preview);
+    setDrag(null);
+    setPreview(null);
+  };
+
+  const handleTransitionKey = (e: React.KeyboardEvent, index: number) => {
+    const step = { ArrowLeft: -0.25, ArrowRight: 0.25 }[e.key];
+    if (!step || !onEntriesChange) return;
+    e.preventDefault();
+    changeEntries(
+      moveTransition(entries, index, entries[index].start_hour + step)
+    );
+  };
+
+  const handleSpanKey = (e: React.KeyboardEvent, index: number) => {
+    const step = { ArrowUp: -1, ArrowDown: 1 }[e.key];
+    const row = DUTY_STATUS_ROWS[rowIndex(entries[index].duty_status) + (step ?? 0)];
+    if (!step || !row || !onEntriesChange) return;
+    e.preventDefault();
+    changeEntries(changeEntryStatus(entries, index, row.status));
+  };
+
+  // Handles stay where they were while dragging, so the one holding the
+  // pointer capture isn't re-rendered away when spans merge
+  const handleEntries = drag?.from ?? entries;
+
+  const statusLabel = (entry: LogEntry) =>
+    DUTY_STATUS_ROWS[rowIndex(entry.duty_status)].label;
+
+  let lastLocation = "";
+  const remarks = entries.map((entry) => {
+    lastLocation = entry.location || lastLocation;
+    return { hour: entry.start_hour, entry, location: lastLocation };
+  });
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="min-w-[720px] w-full"
+          role="img"
+          aria-label={`Duty status graph for ${
+            dailyLog.formatted_date || dailyLog.log_date
+          }`}
+        >
+          {Array.from({ length: 25 }, (_, hour) => (
+            <text
+              key={`label-${hour}`}
+              x={xFor(hour)}
+              y={HEADER_HEIGHT - 8}
+              textAnchor="middle"
+              className="fill-gray-600 text-[10px]"
+            >
+              {hourLabel(hour)}
+            </text>
+          ))}
+
+          <text
+            x={LABEL_WIDTH + GRID_WIDTH + TOTAL_WIDTH / 2}
+            y={HEADER_HEIGHT - 8}
+            textAnchor="middle"
+            className="fill-gray-600 text-[10px] font-semibold"
+          >
+            Total
+          </text>
+
+          {DUTY_STATUS_ROWS.map(({ status, label }, index) => {
+            const top = HEADER_HEIGHT + index * ROW_HEIGHT;
+            return (
+              <g key={status}>
+                <rect
+                  x={0}
+                  y={top}
+                  width={WIDTH}
+                  height={ROW_HEIGHT}
+                  className={index % 2 ? "fill-white" : "fill-gray-50"}
+                  stroke="#9ca3af"
+                  strokeWidth={0.5}
+                />
+                <text
+                  x={8}
+                  y={top + ROW_HEIGHT / 2 + 4}
+                  className="fill-gray-800 text-[11px] font-medium"
+                >
+                  {index + 1}. {label}
+                </text>
+                {Array.from({ length: 24 * 4 }, (_, quarter) => {
+                  const x = xFor(quarter / 4);
+                  const tick =
+                    quarter % 4 === 0
+                      ? ROW_HEIGHT
+                      : quarter % 2 === 0
+                      ? ROW_HEIGHT / 2
+                      : ROW_HEIGHT / 4;
+                  return (
+                    <line
+                      key={quarter}
+                      x1={x}
+                      x2={x}
+                      y1={top}
+                      y2={top + tick}
+                      stroke="#9ca3af"
+                      strokeWidth={quarter % 4 === 0 ? 0.75 : 0.5}
+                    />
+                  );
+                })}
+                <text
+                  x={LABEL_WIDTH + GRID_WIDTH + TOTAL_WIDTH / 2}
+                  y={top + ROW_HEIGHT / 2 + 4}
+                  textAnchor="middle"
+                  className="fill-gray-900 text-[11px] font-semibold"
+                >
+                  {formatHours(totals[status])}
+                </text>
+              </g>
+            );
+          })}
+
+          {highlight && (
+            <rect
+              x={xFor(highlight.start_hour)}
+              y={HEADER_HEIGHT}
+              // A stop of no length still gets a visible sliver
+              width={Math.max(
+                2,
+                xFor(highlight.end_hour) - xFor(highlight.start_hour)
+              )}
+              height={GRID_HEIGHT}
+              className="fill-amber-300/40"
+              stroke="#f59e0b"
+              strokeWidth={1}
+            />
+          )}
+
+          <line
+            x1={xFor(24)}
+            x2={xFor(24)}
+            y1={HEADER_HEIGHT}
+            y2={HEADER_HEIGHT + GRID_HEIGHT}
+            stroke="#9ca3af"
+            strokeWidth={0.75}
+          />
+
+          <path
+            d={statusPath}
+            fill="none"
+            stroke="#1e3a8a"
+            strokeWidth={2.5}
+            strokeLinejoin="miter"
+          />
+
+          {onEntriesChange && (
+            <g
+              onPointerMove={moveDrag}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+            >
+              {handleEntries.map((entry, index) => (
+                <rect
+                  key={`span-${index}`}
+                  x={xFor(entry.start_hour)}
+                  y={yFor(entry.duty_status) - ROW_HEIGHT / 2}
+                  width={xFor(entry.end_hour) - xFor(entry.start_hour)}
+                  height={ROW_HEIGHT}
+                  fill="transparent"
+                  className="cursor-ns-resize outline-none focus:fill-blue-500/20 hover:fill-blue-500/10"
+                  tabIndex={0}
+                  role="button"
+                  aria-label={`${statusLabel(entry)} ${formatHours(
+                    entry.start_hour
+                  )} to ${formatHours(
+                    entry.end_hour
+                  )}. Up and down arrows change the duty status.`}
+                  onPointerDown={(e) => startDrag(e, "span", index)}
+                  onKeyDown={(e) => handleSpanKey(e, index)}
+                />
+              ))}
+              {handleEntries.slice(1).map((entry, i) => {
+                const index = i + 1;
+                return (
+                  <rect
+                    key={`transition-${index}`}
+                    x={xFor(entry.start_hour) - 5}
+                    y={HEADER_HEIGHT}
+                    width={10}
+                    height={GRID_HEIGHT}
+                    fill="transparent"
+                    className="cursor-ew-resize outline-none focus:fill-blue-500/30 hover:fill-blue-500/20"
+                    tabIndex={0}
+                    role="slider"
+                    aria-label={`Change from ${statusLabel(
+                      handleEntries[index - 1]
+                    )} to ${statusLabel(entry)}`}
+                    aria-valuemin={handleEntries[index - 1].start_hour}
+                    aria-valuemax={entry.end_hour}
+                    aria-valuenow={entry.start_hour}
+                    aria-valuetext={formatHours(entry.start_hour)}
+                    onPointerDown={(e) => startDrag(e, "transition", index)}
+                    onKeyDown={(e) => handleTransitionKey(e, index)}
+                  />
+                );
+              })}
+            </g>
+          )}
+
+          <text
+            x={LABEL_WIDTH + GRID_WIDTH + TOTAL_WIDTH / 2}
+            y={HEADER_HEIGHT + GRID_HEIGHT + 14}
+            textAnchor="middle"
+            className="fill-gray-900 text-[11px] font-bold"
+          >
+            = {formatHours(totalHours)}
+          </text>
+
+          <text
+            x={8}
+            y={HEADER_HEIGHT + GRID_HEIGHT + 14}
+            className="fill-gray-800 text-[11px] font-medium"
+          >
+            Remarks
+          </text>
+
+          {remarks.map(({ hour, location }, index) => {
+            const x = xFor(hour);
+            const top = HEADER_HEIGHT + GRID_HEIGHT;
+            return (
+              <g key={index}>
+                <line
+                  x1={x}
+                  x2={x}
+                  y1={top}
+                  y2={top + 10}
+                  stroke="#1e3a8a"
+                  strokeWidth={1}
+                />
+                <text
+                  x={x + 2}
+                  y={top + 14}
+                  transform={`rotate(45 ${x + 2} ${top + 14})`}
+                  className="fill-gray-700 text-[9px]"
+                >
+                  {location || "—"}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <ul className="mt-3 text-xs text-gray-700 space-y-1">
+        {remarks.map(({ hour, entry, location }, index) => (
+          <li key={index}>
+            <span className="font-mono font-semibold">{formatHours(hour)}</span>{" "}
+            {entry.duty_status_display ||
+              DUTY_STATUS_ROWS[rowIndex(entry.duty_status)].label}
+            {location && <> — {location}</>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default EldLogGraph;
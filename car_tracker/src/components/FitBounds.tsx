@@ -0,0 +1,25 @@
+import { useEffect } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import type { LatLng } from "../utils/routeGeometry";
+
+interface FitBoundsProps {
+  points: LatLng[];
+  /** Caps the zoom; with it a single point is centred at this zoom. */
+  maxZoom?: number;
+}
+
+/** Zooms the enclosing map to show every point, whenever `points` changes. */
+const FitBounds: React.FC<FitBoundsProps> = ({ points, maxZoom }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length > 1 || (points.length === 1 && maxZoom !== undefined)) {
+      map.fitBounds(L.latLngBounds(points), { padding: [32, 32], maxZoom });
+    }
+  }, [map, points, maxZoom]);
+
+  return null;
+};
+
+export default FitBounds;
@@ -0,0 +1,115 @@
+import "leaflet/dist/leaflet.css";
+import { Fragment, useMemo } from "react";
+import { MapContainer, Marker, Tooltip } from "react-leaflet";
+import type { FleetVehicle, TripResult } from "../api/types";
+import { createCustomIcon, routeColor } from "../utils/mapIcons";
+import {
+  cumulativeDistances,
+  pointAlongPath,
+  tripRoutePoints,
+  type LatLng,
+} from "../utils/routeGeometry";
+import { plannedFractionAt, segmentRouteSpans } from "../utils/tracking";
+import BaseTileLayer from "./BaseTileLayer";
+import FitBounds from "./FitBounds";
+import TripRouteLayer from "./TripRouteLayer";
+
+interface FleetMapProps {
+  /** Vehicles with an active trip; the rest have nothing to draw. */
+  vehicles: (FleetVehicle & { active_trip: TripResult })[];
+  /** Epoch ms at which to place each truck on its plan. */
+  now: number;
+  onSelect: (vehicle: FleetVehicle) => void;
+}
+
+const vehicleLabel = ({ truck, driver }: FleetVehicle) =>
+  `Unit ${truck.unit_number}${driver ? ` · ${driver.name}` : ""}`;
+
+/**
+ * Every active route of the fleet on one map, with each truck where its plan
+ * puts it at `now`.
+ */
+const FleetMap: React.FC<FleetMapProps> = ({ vehicles, now, onSelect }) => {
+  const routes = useMemo(
+    () =>
+      vehicles.map((vehicle) => {
+        const trip = vehicle.active_trip;
+        const points = tripRoutePoints(trip.route_summary, trip.stops || []);
+        return {
+          vehicle,
+          points,
+          distances: cumulativeDistances(points),
+          spans: segmentRouteSpans(trip.segments || []),
+        };
+      }),
+    [vehicles]
+  );
+
+  const allPoints = useMemo(
+    () => routes.flatMap((route) => route.points),
+    [routes]
+  );
+
+  if (allPoints.length < 2) {
+    return (
+      <div className="h-96 bg-gray-100 rounded-lg flex items-center justify-center">
+        <div className="text-center text-gray-500">
+          <p>No active routes to show</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <MapContainer
+      center={allPoints[0]}
+      zoom={4}
+      style={{ height: "400px", width: "100%" }}
+      className="rounded-lg"
+    >
+      <BaseTileLayer />
+
+      <FitBounds points={allPoints} />
+
+      {routes.map(({ vehicle, points, distances, spans }, index) => {
+        const color = routeColor(index);
+        const segments = vehicle.active_trip.segments || [];
+        const position: LatLng | null =
+          points.length > 1
+            ? pointAlongPath(
+                points,
+                plannedFractionAt(segments, spans, now),
+                distances
+              )
+            : null;
+
+        return (
+          <Fragment key={vehicle.truck.id}>
+            <TripRouteLayer
+              routePoints={points}
+              segments={segments}
+              stops={vehicle.active_trip.stops || []}
+              color={color}
+              label={vehicleLabel(vehicle)}
+              onSelect={() => onSelect(vehicle)}
+            />
+            {position && (
+              <Marker
+                position={position}
+                icon={createCustomIcon(color, true)}
+                zIndexOffset={1000}
+                eventHandlers={{ click: () => onSelect(vehicle) }}
+              >
+                <Tooltip direction="top" offset={[0, -32]}>
+                  {vehicleLabel(vehicle)}
+                </Tooltip>
+              </Marker>
+            )}
+          </Fragment>
+        );
+      })}
+    </MapContainer>
+  );
+};
+
+export default FleetMap;
@@ -0,0 +1,88 @@
+import { AlertTriangle, Fuel } from "lucide-react";
+import type { TripSegment } from "../api/types";
+import { formatCurrency, type FuelPlan } from "../utils/fuelPlan";
+
+interface FuelPlanPanelProps {
+  plan: FuelPlan;
+  segments: TripSegment[];
+  priced: boolean;
+  sourceLabel: string;
+  error: string | null;
+}
+
+const miles = (value: number) => `${Math.round(value).toLocaleString()} mi`;
+
+/**
+ * The fuel inputs a trip was planned with, what the stops add up to, and any
+ * stretch longer than a tank covers.
+ */
+const FuelPlanPanel: React.FC<FuelPlanPanelProps> = ({
+  plan,
+  segments,
+  priced,
+  sourceLabel,
+  error,
+}) => {
+  const { settings } = plan;
+
+  return (
+    <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm">
+      <div className="flex items-center font-semibold text-yellow-900 mb-2">
+        <Fuel className="w-4 h-4 mr-2" aria-hidden="true" />
+        Fuel Plan
+      </div>
+      <p className="text-gray-700">
+        {settings.tank_capacity_gallons} gal tank at {settings.average_mpg} MPG
+        ({miles(plan.rangeMiles)} to the reserve), starting{" "}
+        {Math.round(settings.starting_fuel_level * 100)}% full. Buy about{" "}
+        <strong>{Math.round(plan.totalGallons)} gal</strong>
+        {priced && plan.totalCost > 0 && (
+          <>
+            {" "}
+            for <strong>{formatCurrency(plan.totalCost)}</strong>
+            {plan.unpricedGallons && " plus stops without a price"}
+          </>
+        )}
+        , arriving with {Math.round(plan.fuelAtEnd)} gal.
+      </p>
+      <p className="text-xs text-gray-600 mt-1">
+        Fuel is bought where it is cheapest within range. Prices:{" "}
+        {sourceLabel}
+        {!priced && !error && " (loading...)"}.
+      </p>
+
+      {error && (
+        <div role="alert" className="mt-2 text-xs text-red-700">
+          {error}
+        </div>
+      )}
+
+      {plan.warnings.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {plan.warnings.map((warning) => (
+            <li
+              key={warning.fromMile}
+              className="flex items-start text-red-800"
+            >
+              <AlertTriangle
+                className="w-4 h-4 mr-2 mt-0.5 shrink-0"
+                aria-hidden="true"
+              />
+              <span>
+                {miles(warning.toMile - warning.fromMile)} from mile{" "}
+                {Math.round(warning.fromMile)} to{" "}
+                {warning.segmentIndex === null
+                  ? "the end of the trip"
+                  : `fuel stop #${segments[warning.segmentIndex].sequence_number}`}{" "}
+                is beyond the{" "}
+                {warning.fromMile === 0 ? "fuel on board" : "tank's range"}.
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FuelPlanPanel;
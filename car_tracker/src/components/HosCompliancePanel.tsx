@@ -0,0 +1,73 @@
+import { AlertTriangle, CheckCircle } from "lucide-react";
+import {
+  HOS_RULE_LABELS,
+  type HosRuleSet,
+  type HosViolation,
+} from "../utils/hosRules";
+
+interface HosCompliancePanelProps {
+  violations: HosViolation[];
+  ruleSet: HosRuleSet;
+}
+
+const HosCompliancePanel: React.FC<HosCompliancePanelProps> = ({
+  violations,
+  ruleSet,
+}) => {
+  const { limits } = ruleSet;
+
+  if (violations.length === 0) {
+    return (
+      <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center text-green-800">
+        <CheckCircle className="w-5 h-5 mr-2" />
+        <span className="text-sm">
+          <strong>HOS check passed ({ruleSet.label}):</strong> the plan
+          respects the {limits.maxDrivingHours}-hour driving limit,{" "}
+          {limits.dutyWindowHours}-hour window,{" "}
+          {limits.breakAfterDrivingHours !== null &&
+            `${limits.breakMinutes}-minute break, `}
+          {limits.resetHours}-hour reset and {limits.cycleHours}-hour/
+          {limits.cycleDays}-day cycle.
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-red-50 border border-red-300 rounded-lg">
+      <div className="flex items-center text-red-800 mb-3">
+        <AlertTriangle className="w-5 h-5 mr-2" />
+        <strong>
+          {violations.length} HOS violation{violations.length > 1 ? "s" : ""}{" "}
+          found under {ruleSet.label} rules
+        </strong>
+      </div>
+      <ul className="space-y-2">
+        {violations.map((violation, index) => (
+          <li
+            key={index}
+            className="text-sm text-red-900 bg-white border border-red-200 rounded p-2"
+          >
+            <span className="inline-block px-2 py-0.5 mr-2 bg-red-100 text-red-700 rounded text-xs font-semibold">
+              {HOS_RULE_LABELS[violation.rule]}
+            </span>
+            {violation.sequenceNumber !== undefined && (
+              <span className="font-medium mr-1">
+                Segment #{violation.sequenceNumber}:
+              </span>
+            )}
+            {violation.sequenceNumber === undefined &&
+              violation.dayNumber !== undefined && (
+                <span className="font-medium mr-1">
+                  Day {violation.dayNumber}:
+                </span>
+              )}
+            {violation.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HosCompliancePanel;
@@ -0,0 +1,168 @@
+import { useMemo, useRef, useState } from "react";
+import { Loader2, MousePointerClick } from "lucide-react";
+import { isAbortError } from "../api/client";
+import { coordinateLocation, reverseGeocode } from "../api/geocode";
+import type { Location, PlannedStop } from "../api/types";
+import { STOP_TYPE_LABELS, type StopDraft } from "../utils/stops";
+import MapComponent from "./MapComponent";
+
+interface LocationPickerMapProps {
+  currentLocation: Location | null;
+  stops: StopDraft[];
+  onCurrentLocationChange: (location: Location) => void;
+  onStopLocationChange: (stopId: string, location: Location) => void;
+}
+
+// "current" or the id of a stop draft
+type PickTarget = string;
+
+/**
+ * The planner's map in pick mode: a click sets the chosen target's location
+ * and dragging a marker moves it, both named by reverse geocoding.
+ */
+const LocationPickerMap: React.FC<LocationPickerMapProps> = ({
+  currentLocation,
+  stops,
+  onCurrentLocationChange,
+  onStopLocationChange,
+}) => {
+  const [target, setTarget] = useState<PickTarget>("current");
+  const [resolving, setResolving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Only placed stops have a marker; remember which target each one is
+  const markers = useMemo(() => {
+    const placed: { target: PickTarget; stop: PlannedStop }[] = [];
+    if (currentLocation) {
+      placed.push({
+        target: "current",
+        stop: {
+          stop_type: "current",
+          name: currentLocation.name,
+          coords: currentLocation.coords,
+        },
+      });
+    }
+    stops.forEach((stop) => {
+      if (stop.location) {
+        placed.push({
+          target: stop.id,
+          stop: {
+            stop_type: stop.stop_type,
+            name: stop.location.name,
+            coords: stop.location.coords,
+          },
+        });
+      }
+    });
+    return placed;
+  }, [currentLocation, stops]);
+
+  const markerStops = useMemo(
+    () => markers.map((marker) => marker.stop),
+    [markers]
+  );
+
+  const targetLabel = (pickTarget: PickTarget) => {
+    if (pickTarget === "current") return "Current location";
+    const index = stops.findIndex((stop) => stop.id === pickTarget);
+    return index === -1
+      ? "Stop"
+      : `Stop ${index + 1} (${STOP_TYPE_LABELS[stops[index].stop_type]})`;
+  };
+
+  const setLocation = (pickTarget: PickTarget, location: Location) => {
+    if (pickTarget === "current") {
+      onCurrentLocationChange(location);
+    } else {
+      onStopLocationChange(pickTarget, location);
+    }
+  };
+
+  const pick = async (pickTarget: PickTarget, coords: [number, number]) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    // Place the marker right away; the name follows once the lookup returns
+    setLocation(pickTarget, coordinateLocation(coords));
+    setResolving(true);
+    setMessage(null);
+
+    try {
+      const location = await reverseGeocode(coords, controller.signal);
+      setLocation(pickTarget, location);
+      setMessage(`${targetLabel(pickTarget)} set to ${location.name}`);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Reverse geocoding error:", err);
+      setMessage(
+        `${targetLabel(pickTarget)} set to the picked point; its place name could not be looked up`
+      );
+    } finally {
+      if (controllerRef.current === controller) setResolving(false);
+    }
+  };
+
+  // A target is only picked once the stop exists; fall back if it was removed
+  const activeTarget =
+    target === "current" || stops.some((stop) => stop.id === target)
+      ? target
+      : "current";
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <label
+          htmlFor="map-pick-target"
+          className="flex items-center text-sm font-medium text-gray-700"
+        >
+          <MousePointerClick className="w-4 h-4 mr-1" aria-hidden="true" />
+          Clicking the map sets
+        </label>
+        <select
+          id="map-pick-target"
+          value={activeTarget}
+          onChange={(e) => setTarget(e.target.value)}
+          className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-sm"
+        >
+          <option value="current">{targetLabel("current")}</option>
+          {stops.map((stop) => (
+            <option key={stop.id} value={stop.id}>
+              {targetLabel(stop.id)}
+            </option>
+          ))}
+        </select>
+        <div
+          role="status"
+          aria-live="polite"
+          className="flex items-center text-sm text-gray-600"
+        >
+          {resolving ? (
+            <>
+              <Loader2
+                className="w-4 h-4 mr-1 animate-spin"
+                aria-hidden="true"
+              />
+              Looking up place name...
+            </>
+          ) : (
+            message
+          )}
+        </div>
+      </div>
+
+      <MapComponent
+        stops={markerStops}
+        onPick={(coords) => pick(activeTarget, coords)}
+        onStopDrag={(index, coords) => pick(markers[index].target, coords)}
+      />
+      <p className="text-xs text-gray-600 mt-1">
+        Drag a marker to move that stop.
+      </p>
+    </div>
+  );
+};
+
+export default LocationPickerMap;
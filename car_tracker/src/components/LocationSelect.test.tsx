@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiError } from "../api/client";
+import { geocodeAutocomplete } from "../api/geocode";
+import type { Location } from "../api/types";
+import { axe } from "../test/axe";
+import LocationSelect from "./LocationSelect";
+
+vi.mock("../api/geocode", () => ({
+  geocodeAutocomplete: vi.fn(),
+  reverseGeocode: vi.fn(),
+  coordinateLocation: vi.fn(),
+}));
+
+const DALLAS: Location = {
+  id: "dallas",
+  name: "Dallas, TX",
+  coords: [-96.797, 32.7767],
+};
+const CHICAGO: Location = {
+  id: "chicago",
+  name: "Chicago, IL",
+  coords: [-87.6298, 41.8781],
+};
+const CHICO: Location = {
+  id: "chico",
+  name: "Chico, CA",
+  coords: [-121.8375, 39.7285],
+};
+
+const Harness: React.FC<{ initial?: Location }> = ({ initial = null }) => {
+  const [value, setValue] = useState<Location | null>(initial);
+  return <LocationSelect label="Pickup" value={value} onChange={setValue} />;
+};
+
+// The component debounces searches by 500ms
+const SEARCH_TIMEOUT = { timeout: 2000 };
+
+describe("LocationSelect", () => {
+  beforeEach(() => {
+    vi.mocked(geocodeAutocomplete).mockReset();
+  });
+
+  it("announces loading and then the number of results", async () => {
+    let resolveSearch: (locations: Location[]) => void = () => {};
+    vi.mocked(geocodeAutocomplete).mockReturnValue(
+      new Promise((resolve) => {
+        resolveSearch = resolve;
+      })
+    );
+    const user = userEvent.setup();
+    render(<Harness />);
+
+    await user.type(screen.getByRole("combobox", { name: /Pickup/ }), "Chic");
+
+    const status = screen.getByRole("status");
+    await waitFor(
+      () => expect(status.textContent).toBe("Searching for Chic"),
+      SEARCH_TIMEOUT
+    );
+
+    resolveSearch([CHICAGO, CHICO]);
+    await waitFor(() =>
+      expect(status.textContent).toBe(
+        "2 locations available. Use up and down arrows to choose."
+      )
+    );
+    expect(await axe(document.body)).toHaveNoViolations();
+  });
+
+  it("links the error message to the input", async () => {
+    vi.mocked(geocodeAutocomplete).mockRejectedValue(
+      new ApiError("network", "Could not reach the server")
+    );
+    const user = userEvent.setup();
+    render(<Harness />);
+
+    const input = screen.getByRole("combobox", { name: /Pickup/ });
+    await user.type(input, "Springfield");
+
+    const alert = await screen.findByRole("alert", {}, SEARCH_TIMEOUT);
+    expect(alert.textContent).toContain(
+      "Search error: Could not reach the server"
+    );
+    expect(input.getAttribute("aria-invalid")).toBe("true");
+    expect(input.getAttribute("aria-describedby")).toBe(alert.id);
+    expect(await axe(document.body)).toHaveNoViolations();
+  });
+
+  it("shows no error for a search cancelled by newer typing", async () => {
+    vi.mocked(geocodeAutocomplete).mockImplementation(
+      (_query, signal) =>
+        new Promise((resolve, reject) => {
+          signal?.addEventListener("abort", () =>
+            reject(new ApiError("aborted", "Request cancelled"))
+          );
+          setTimeout(() => resolve([CHICAGO]), 300);
+        })
+    );
+    const user = userEvent.setup();
+    render(<Harness />);
+
+    const input = screen.getByRole("combobox", { name: /Pickup/ });
+    await user.type(input, "Chicag");
+    await waitFor(
+      () => expect(geocodeAutocomplete).toHaveBeenCalled(),
+      SEARCH_TIMEOUT
+    );
+    await user.type(input, "o");
+
+    await waitFor(
+      () =>
+        expect(screen.getByRole("status").textContent).toBe(
+          "1 location available. Use up and down arrows to choose."
+        ),
+      SEARCH_TIMEOUT
+    );
+    expect(screen.queryByRole("alert")).toBeNull();
+    expect(input.getAttribute("aria-invalid")).toBe("false");
+  });
+
+  it("restores the last picked location on Escape", async () => {
+    const user = userEvent.setup();
+    render(<Harness initial={DALLAS} />);
+
+    const input = screen.getByRole("combobox", {
+      name: /Pickup/,
+    }) as HTMLInputElement;
+    expect(input.value).toBe("Dallas, TX");
+
+    await user.clear(input);
+    await user.type(input, "Hou");
+    expect(screen.queryByText("Selected: Dallas, TX")).toBeNull();
+
+    await user.keyboard("{Escape}");
+
+    expect(input.value).toBe("Dallas, TX");
+    expect(screen.getByText("Selected: Dallas, TX")).toBeTruthy();
+    expect(screen.getByRole("status").textContent).toBe("Selected Dallas, TX");
+  });
+
+  it("names the clear button after its field", async () => {
+    render(<Harness initial={DALLAS} />);
+
+    expect(screen.getByRole("button", { name: "Clear Pickup" })).toBeTruthy();
+    expect(await axe(document.body)).toHaveNoViolations();
+  });
+});
@@ -1,15 +1,35 @@
-import { useState, useEffect, useRef } from "react";
-import { Combobox } from "@headlessui/react";
-import { MapPin, Loader2, Check } from "lucide-react";
-
-interface Location {
-  id: string;
-  name: string;
-  coords: [number, number];
-  locality?: string;
-  region?: string;
-  country?: string;
-}
+import {
+  useState,
+  useEffect,
+  useId,
+  useRef,
+  useSyncExternalStore,
+} from "react";
+import { Combobox, Description, Field } from "@headlessui/react";
+import {
+  MapPin,
+  Loader2,
+  Check,
+  History,
+  LocateFixed,
+  X,
+} from "lucide-react";
+import { isAbortError } from "../api/client";
+import {
+  coordinateLocation,
+  geocodeAutocomplete,
+  reverseGeocode,
+} from "../api/geocode";
+import type { Location } from "../api/types";
+import {
+  addRecentLocation,
+  cacheResults,
+  getCachedResults,
+  getRecentLocations,
+  loadGeocodeCache,
+  matchRecentLocations,
+  subscribeRecentLocations,
+} from "../utils/geocodeCache";
 
 interface LocationSelectProps {
   label: string;
@@ -18,6 +38,8 @@ interface LocationSelectProps {
   placeholder?: string;
   required?: boolean;
   className?: string;
+  /** Offer a "Use my location" button backed by the Geolocation API. */
+  showCurrentPosition?: boolean;
 }
 
 export default function LocationSelect({
@@ -27,17 +49,38 @@ export default function LocationSelect({
   placeholder = "Start typing a city...",
   required = true,
   className = "",
+  showCurrentPosition = false,
 }: LocationSelectProps) {
   const [query, setQuery] = useState("");
   const [results, setResults] = useState<Location[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [locating, setLocating] = useState(false);
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
+  // Last location actually picked, restored when Escape abandons an edit
+  const committedRef = useRef<Location | null>(value);
+  const baseId = useId();
+  const inputId = `${baseId}-input`;
+  const errorId = `${baseId}-error`;
+  const selectedId = `${baseId}-selected`;
+  const recent = useSyncExternalStore(
+    subscribeRecentLocations,
+    getRecentLocations
+  );
+
+  useEffect(() => {
+    loadGeocodeCache();
+  }, []);
+
+  useEffect(() => {
+    if (value) committedRef.current = value;
+  }, [value]);
 
   useEffect(() => {
     if (!query.trim() || query.length < 3) {
       setResults([]);
       setError(null);
+      setLoading(false);
       return;
     }
 
@@ -45,97 +88,60 @@ export default function LocationSelect({
       clearTimeout(debounceRef.current);
     }
 
+    const cached = getCachedResults(query);
+    if (cached) {
+      setResults(cached);
+      setError(
+        cached.length ? null : "No locations found. Try a different search."
+      );
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+
     debounceRef.current = setTimeout(async () => {
       try {
         setLoading(true);
         setError(null);
 
-        const res = await fetch(
-          `${import.meta.env.VITE_API_URL}/geocode/autocomplete/?q=${encodeURIComponent(
-            query
-          )}`,
-          {
-            method: "GET",
-            headers: {
-              "Content-Type": "application/json",
-            },
-          }
-        );
-
-        if (!res.ok) {
-          throw new Error(`API error: ${res.status}`);
-        }
+        const suggestions = await geocodeAutocomplete(query, controller.signal);
+        cacheResults(query, suggestions);
 
-        const data = await res.json();
-
-        if (data.error) {
-          setError(data.error);
-          setResults([]);
-          return;
-        }
-
-        if (!data.features || data.features.length === 0) {
+        if (suggestions.length === 0) {
           setResults([]);
           setError("No locations found. Try a different search.");
           return;
         }
 
-        const suggestions: Location[] = data.features.map((feature: any) => {
-          const props = feature.properties;
-          return {
-            id: feature.id || props.id || Math.random().toString(),
-            name: getDisplayName(props),
-            coords: feature.geometry.coordinates, 
-            locality: props.locality,
-            region: props.region,
-            country: props.country || "US",
-          };
-        });
-
         setResults(suggestions);
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error("Geocoding error:", err);
         const errorMessage =
           err instanceof Error ? err.message : "Failed to fetch locations";
         setError(`Search error: ${errorMessage}`);
         setResults([]);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
-    }, 500); 
+    }, 500);
 
     return () => {
+      controller.abort();
       if (debounceRef.current) {
         clearTimeout(debounceRef.current);
       }
     };
   }, [query]);
 
-  const getDisplayName = (properties: any): string => {
-    if (properties.label) {
-      return properties.label;
-    }
-
-    if (properties.locality && properties.region) {
-      return `${properties.locality}, ${properties.region}`;
-    }
-
-    if (properties.name && properties.region) {
-      return `${properties.name}, ${properties.region}`;
-    }
-
-    if (properties.name) {
-      return properties.name;
-    }
-
-    return "Unknown location";
-  };
-
   const handleLocationChange = (location: Location | null) => {
     setResults([]);
     setError(null);
+    committedRef.current = location;
 
     if (location) {
+      addRecentLocation(location);
       setQuery(location.name);
     } else {
       setQuery("");
@@ -144,6 +150,16 @@ export default function LocationSelect({
     onChange(location);
   };
 
+  // The Combobox reports null when its text is emptied, which isn't a pick:
+  // Escape should still bring back the last location
+  const handleComboboxChange = (location: Location | null) => {
+    if (location) {
+      handleLocationChange(location);
+    } else {
+      onChange(null);
+    }
+  };
+
   const clearSelection = () => {
     handleLocationChange(null);
     setQuery("");
@@ -158,32 +174,141 @@ export default function LocationSelect({
     }
   };
 
+  const handleUseMyLocation = () => {
+    if (!("geolocation" in navigator)) {
+      setError("Your browser can't share its location");
+      return;
+    }
+
+    setLocating(true);
+    setError(null);
+
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        const coords: [number, number] = [
+          position.coords.longitude,
+          position.coords.latitude,
+        ];
+        try {
+          handleLocationChange(await reverseGeocode(coords));
+        } catch (err) {
+          // The position is still usable without a place name
+          console.error("Reverse geocoding error:", err);
+          handleLocationChange(coordinateLocation(coords));
+        } finally {
+          setLocating(false);
+        }
+      },
+      (err) => {
+        setLocating(false);
+        setError(
+          err.code === err.PERMISSION_DENIED
+            ? "Location access was denied"
+            : "Could not determine your location"
+        );
+      },
+      { enableHighAccuracy: true, timeout: 15_000, maximumAge: 60_000 }
+    );
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Escape") return;
+
+    const committed = committedRef.current;
+    if (committed && value?.id !== committed.id) {
+      // Keeps the Combobox from clearing the value on its own Escape. It
+      // leaves typed text alone while the user types, so set it here.
+      e.preventDefault();
+      e.currentTarget.value = committed.name;
+      setQuery(committed.name);
+      setResults([]);
+      setError(null);
+      onChange(committed);
+    } else if (!committed && query) {
+      setQuery("");
+      setResults([]);
+      setError(null);
+    }
+  };
+
+  // Recent picks show up instantly, ahead of (and deduplicated from) the
+  // network results
+  const recentMatches = value ? [] : matchRecentLocations(recent, query);
+  const recentIds = new Set(recentMatches.map((location) => location.id));
+  const suggestions = [
+    ...recentMatches,
+    ...results.filter((location) => !recentIds.has(location.id)),
+  ];
+
+  let status = "";
+  if (loading) {
+    status = `Searching for ${query}`;
+  } else if (suggestions.length > 0 && !value) {
+    status = `${suggestions.length} location${
+      suggestions.length === 1 ? "" : "s"
+    } available. Use up and down arrows to choose.`;
+  } else if (locating) {
+    status = "Finding your location";
+  } else if (value) {
+    status = `Selected ${value.name}`;
+  }
+
   return (
-    <div className={`relative ${className}`}>
-      <label className="block text-sm font-medium text-gray-700 mb-2">
-        <MapPin className="inline-block w-4 h-4 mr-1" />
-        {label}
-        {required && <span className="text-red-500 ml-1">*</span>}
-      </label>
-
-      <Combobox value={value} onChange={handleLocationChange} nullable>
+    // Headless UI sets the input's aria-describedby itself, from the
+    // Descriptions inside the Field
+    <Field className={`relative ${className}`}>
+      <div className="flex items-center justify-between mb-2">
+        <label
+          htmlFor={inputId}
+          className="block text-sm font-medium text-gray-700"
+        >
+          <MapPin className="inline-block w-4 h-4 mr-1" aria-hidden="true" />
+          {label}
+          {required && (
+            <span className="text-red-500 ml-1" aria-hidden="true">
+              *
+            </span>
+          )}
+        </label>
+        {showCurrentPosition && (
+          <button
+            type="button"
+            onClick={handleUseMyLocation}
+            disabled={locating}
+            className="flex items-center text-sm font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            {locating ? (
+              <Loader2 className="w-4 h-4 mr-1 animate-spin" aria-hidden="true" />
+            ) : (
+              <LocateFixed className="w-4 h-4 mr-1" aria-hidden="true" />
+            )}
+            Use my location
+          </button>
+        )}
+      </div>
+
+      <Combobox value={value} onChange={handleComboboxChange} nullable>
         {({ open }) => (
           <>
             <div className="relative">
               <Combobox.Input
+                id={inputId}
                 className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors pr-10"
                 onChange={(e) => handleInputChange(e.target.value)}
+                onKeyDown={handleKeyDown}
                 displayValue={(location: Location | null) => {
                   if (query && !value) return query;
                   return location?.name || "";
                 }}
                 placeholder={placeholder}
                 required={required}
+                aria-required={required}
+                aria-invalid={!!error}
                 autoComplete="off"
               />
 
               {loading && (
-                <div className="absolute right-10 top-3">
+                <div className="absolute right-10 top-3" aria-hidden="true">
                   <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
                 </div>
               )}
@@ -192,109 +317,132 @@ export default function LocationSelect({
                 <button
                   type="button"
                   onClick={clearSelection}
-                  className="absolute right-3 top-3 text-gray-400 hover:text-gray-600 transition-colors text-lg font-bold"
-                  aria-label="Clear selection"
+                  className="absolute right-2 top-2 p-1 rounded text-gray-500 hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                  aria-label={`Clear ${label}`}
                 >
-                  ×
+                  <X className="h-5 w-5" aria-hidden="true" />
                 </button>
               )}
             </div>
 
+            <div role="status" aria-live="polite" className="sr-only">
+              {status}
+            </div>
+
             {error && (
-              <div className="mt-1 text-sm text-red-600 bg-red-50 border border-red-200 p-2 rounded">
+              <Description
+                as="div"
+                id={errorId}
+                role="alert"
+                className="mt-1 text-sm text-red-700 bg-red-50 border border-red-200 p-2 rounded"
+              >
                 <span className="font-medium">{error}</span>
                 <div className="text-xs mt-1">
                   Try searching for a major city or use format like "City,
                   State"
                 </div>
-              </div>
+              </Description>
             )}
 
             {value && !error && (
-              <div className="mt-1 text-sm text-green-600 bg-green-50 border border-green-200 p-2 rounded flex items-center">
-                <Check className="h-4 w-4 mr-1" />
+              <Description
+                as="div"
+                id={selectedId}
+                className="mt-1 text-sm text-green-700 bg-green-50 border border-green-200 p-2 rounded flex items-center"
+              >
+                <Check className="h-4 w-4 mr-1" aria-hidden="true" />
                 <span>Selected: {value.name}</span>
                 {value.coords && (
-                  <span className="text-xs text-gray-500 ml-2">
+                  <span className="text-xs text-gray-600 ml-2">
                     ({value.coords[1].toFixed(4)}, {value.coords[0].toFixed(4)})
                   </span>
                 )}
-              </div>
+              </Description>
             )}
 
-            {open && (results.length > 0 || loading) && (
+            {open && (
               <Combobox.Options
                 static
+                // Modal lists hide the rest of the page, the status region too
+                modal={false}
+                // Kept while open, empty or not, as the input points at it
+                hidden={suggestions.length === 0 && !loading}
                 className="absolute mt-1 max-h-60 w-full overflow-auto rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none z-50 border"
               >
-                {loading && query ? (
-                  <div className="relative cursor-default select-none px-4 py-3 text-gray-500">
-                    <div className="flex items-center">
-                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                      <span>Searching for "{query}"...</span>
-                    </div>
-                  </div>
-                ) : results.length === 0 && query.length >= 3 ? (
-                  <div className="relative cursor-default select-none px-4 py-3 text-gray-500">
-                    <div className="text-sm">
-                      <div className="font-medium">No locations found</div>
-                      <div className="text-xs mt-1">
-                        Try searching for a major city or check spelling
-                      </div>
-                    </div>
-                  </div>
-                ) : (
-                  results.map((location, index) => (
-                    <Combobox.Option
-                      key={location.id || index}
-                      value={location}
-                      className={({ active }) =>
-                        `relative cursor-pointer select-none py-3 pl-10 pr-4 ${
-                          active ? "bg-blue-600 text-white" : "text-gray-900"
-                        }`
-                      }
-                    >
-                      {({ active, selected }) => (
-                        <>
-                          <div className="flex flex-col">
+                {suggestions.map((location, index) => (
+                  <Combobox.Option
+                    key={location.id || index}
+                    value={location}
+                    className={({ active }) =>
+                      `relative cursor-pointer select-none py-3 pl-10 pr-4 ${
+                        active ? "bg-blue-600 text-white" : "text-gray-900"
+                      }`
+                    }
+                  >
+                    {({ active, selected }) => (
+                      <>
+                        <div className="flex flex-col">
+                          {recentIds.has(location.id) && (
+                            <span className="sr-only">Recent: </span>
+                          )}
+                          <span
+                            className={`block truncate ${
+                              selected ? "font-semibold" : "font-normal"
+                            }`}
+                          >
+                            {location.name}
+                          </span>
+                          {location.coords && (
                             <span
-                              className={`block truncate ${
-                                selected ? "font-semibold" : "font-normal"
+                              className={`text-xs ${
+                                active ? "text-blue-200" : "text-gray-500"
                               }`}
                             >
-                              {location.name}
+                              {location.coords[1].toFixed(4)},{" "}
+                              {location.coords[0].toFixed(4)}
                             </span>
-                            {location.coords && (
-                              <span
-                                className={`text-xs ${
-                                  active ? "text-blue-200" : "text-gray-500"
-                                }`}
-                              >
-                                {location.coords[1].toFixed(4)},{" "}
-                                {location.coords[0].toFixed(4)}
-                              </span>
-                            )}
-                          </div>
-
-                          {selected && (
+                          )}
+                        </div>
+
+                        {selected ? (
+                          <span
+                            className={`absolute inset-y-0 left-0 flex items-center pl-3 ${
+                              active ? "text-white" : "text-blue-600"
+                            }`}
+                          >
+                            <Check className="h-5 w-5" aria-hidden="true" />
+                          </span>
+                        ) : (
+                          recentIds.has(location.id) && (
                             <span
                               className={`absolute inset-y-0 left-0 flex items-center pl-3 ${
-                                active ? "text-white" : "text-blue-600"
+                                active ? "text-blue-200" : "text-gray-400"
                               }`}
                             >
-                              <Check className="h-5 w-5" aria-hidden="true" />
+                              <History className="h-4 w-4" aria-hidden="true" />
                             </span>
-                          )}
-                        </>
-                      )}
-                    </Combobox.Option>
-                  ))
+                          )
+                        )}
+                      </>
+                    )}
+                  </Combobox.Option>
+                ))}
+                {loading && query && (
+                  <div className="relative cursor-default select-none px-4 py-3 text-gray-600">
+                    <div className="flex items-center">
+                      <Loader2
+                        className="h-4 w-4 animate-spin mr-2"
+                        aria-hidden="true"
+                      />
+                      <span>Searching for "{query}"...</span>
+                    </div>
+                  </div>
                 )}
               </Combobox.Options>
             )}
           </>
         )}
       </Combobox>
-    </div>
+    </Field>
   );
 }
@@ -1,153 +1,111 @@
 import "leaflet/dist/leaflet.css";
-import { useState, useEffect } from "react";
+import { useEffect, useMemo } from "react";
+import { MapContainer, Marker, Tooltip, useMapEvents } from "react-leaflet";
+import type { PlannedStop, RouteSummary, TripSegment } from "../api/types";
+import { useTileSource } from "../hooks/useTileSource";
+import { createCustomIcon, iconColors } from "../utils/mapIcons";
+import { precacheRouteTiles } from "../utils/mapTiles";
 import {
-  MapContainer,
-  TileLayer,
-  Marker,
-  Popup,
-  Polyline,
-} from "react-leaflet";
-import L from "leaflet";
-import type { TripSegment } from "../App";
-
-delete (L.Icon.Default.prototype as any)._getIconUrl;
-L.Icon.Default.mergeOptions({
-  iconRetinaUrl:
-    "https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon-2x.png",
-  iconUrl:
-    "https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon.png",
-  shadowUrl:
-    "https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png",
-});
-
-const createCustomIcon = (color: string) => {
-  return new L.Icon({
-    iconUrl: `data:image/svg+xml;base64,${btoa(`
-      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32" width="32" height="32">
-        <circle cx="16" cy="16" r="14" fill="${color}" stroke="white" stroke-width="2"/>
-        <circle cx="16" cy="16" r="6" fill="white"/>
-      </svg>
-    `)}`,
-    iconSize: [32, 32],
-    iconAnchor: [16, 32],
-    popupAnchor: [0, -32],
-  });
-};
-
-const iconColors = {
-  driving: "#ef4444",
-  fuel: "#eab308",
-  pickup: "#22c55e", 
-  dropoff: "#16a34a", 
-  sleeper_berth: "#3b82f6",
-  rest_break: "#a855f7",
-  default: "#6b7280", 
-};
+  cumulativeDistances,
+  pointAlongPath,
+  slicePath,
+  tripRoutePoints,
+  type LatLng,
+} from "../utils/routeGeometry";
+import { segmentRouteSpans } from "../utils/tracking";
+import BaseTileLayer from "./BaseTileLayer";
+import FitBounds from "./FitBounds";
+import TripRouteLayer from "./TripRouteLayer";
 
 interface MapComponentProps {
   segments?: TripSegment[];
-  currentLocation: string;
-  pickupLocation: string;
-  dropoffLocation: string;
+  routeSummary?: RouteSummary | string;
+  stops: PlannedStop[];
+  /** Map-pick mode: called with the [lng, lat] of a click on the map. */
+  onPick?: (coords: [number, number]) => void;
+  /** Map-pick mode: makes stop markers draggable to a new [lng, lat]. */
+  onStopDrag?: (index: number, coords: [number, number]) => void;
+  /** Zone for segment times without one of their own. */
+  timeZone?: string;
+  /** Tracking mode: the truck's latest position. */
+  livePosition?: LatLng;
+  /** Tracking mode: the segment the truck is in, highlighted on the route. */
+  activeSegmentIndex?: number;
+  /** Linked views: the segment to highlight, and the one to zoom to. */
+  highlightedSegmentIndex?: number | null;
+  focusSegmentIndex?: number | null;
+  onSegmentHover?: (index: number | null) => void;
+  onSegmentSelect?: (index: number) => void;
 }
 
-const MapComponent: React.FC<MapComponentProps> = ({
-  segments,
-  currentLocation,
-  pickupLocation,
-  dropoffLocation,
-}) => {
-  const [coordinates, setCoordinates] = useState<{
-    current: [number, number];
-    pickup: [number, number];
-    dropoff: [number, number];
-  } | null>(null);
+// Roughly the middle of the contiguous US, for a map with nothing on it yet
+const DEFAULT_CENTER: LatLng = [39.5, -98.35];
 
-  const [loading, setLoading] = useState(true);
+// Close enough to see the roads around a stop the map zooms to
+const FOCUS_MAX_ZOOM = 12;
 
-  useEffect(() => {
-    const fetchCoordinates = async () => {
-      try {
-        setLoading(true);
-
-        const locations = [currentLocation, pickupLocation, dropoffLocation];
-        const coordPromises = locations.map(async (location) => {
-          const response = await fetch(
-            `/api/geocode/autocomplete/?q=${encodeURIComponent(location)}`
-          );
-          const data = await response.json();
-
-          if (data.features && data.features.length > 0) {
-            const coords = data.features[0].geometry.coordinates;
-            return [coords[1], coords[0]] as [number, number]; 
-          }
-
-          return getDefaultCoordinates(location);
-        });
-
-        const [currentCoords, pickupCoords, dropoffCoords] = await Promise.all(
-          coordPromises
-        );
-
-        setCoordinates({
-          current: currentCoords,
-          pickup: pickupCoords,
-          dropoff: dropoffCoords,
-        });
-      } catch (error) {
-        console.error("Error fetching coordinates:", error);
-
-        setCoordinates({
-          current: getDefaultCoordinates(currentLocation),
-          pickup: getDefaultCoordinates(pickupLocation),
-          dropoff: getDefaultCoordinates(dropoffLocation),
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchCoordinates();
-  }, [currentLocation, pickupLocation, dropoffLocation]);
+const PickHandler: React.FC<{
+  onPick: (coords: [number, number]) => void;
+}> = ({ onPick }) => {
+  useMapEvents({
+    click: (e) => onPick([e.latlng.lng, e.latlng.lat]),
+  });
 
-  // Fallback coordinate calculation (improved version)
-  const getDefaultCoordinates = (location: string): [number, number] => {
-    const cityCoords: Record<string, [number, number]> = {
-      chicago: [41.8781, -87.6298],
-      detroit: [42.3314, -83.0458],
-      denver: [39.7392, -104.9903],
-      "los angeles": [34.0522, -118.2437],
-      "new york": [40.7128, -74.006],
-      miami: [25.7617, -80.1918],
-      houston: [29.7604, -95.3698],
-      seattle: [47.6062, -122.3321],
-      phoenix: [33.4484, -112.074],
-      dallas: [32.7767, -96.797],
-    };
+  return null;
+};
 
-    const locationLower = location.toLowerCase();
+const MapComponent: React.FC<MapComponentProps> = ({
+  segments,
+  routeSummary,
+  stops,
+  onPick,
+  onStopDrag,
+  timeZone,
+  livePosition,
+  activeSegmentIndex,
+  highlightedSegmentIndex,
+  focusSegmentIndex,
+  onSegmentHover,
+  onSegmentSelect,
+}) => {
+  const pickMode = !!(onPick || onStopDrag);
+  const tileSource = useTileSource();
+
+  // Prefer the road geometry from the backend; the straight line through the
+  // selected stops is only a fallback for trips planned without one.
+  const routePoints = useMemo<LatLng[]>(
+    () => tripRoutePoints(routeSummary, stops),
+    [routeSummary, stops]
+  );
 
-    for (const [city, coords] of Object.entries(cityCoords)) {
-      if (locationLower.includes(city) || city.includes(locationLower)) {
-        return coords;
-      }
+  // The stretch of road a focused drive covers, or the spot of a stop
+  const focusIndex = focusSegmentIndex ?? null;
+  const focusPoints = useMemo<LatLng[] | null>(() => {
+    if (focusIndex === null) return null;
+    const segment = segments?.[focusIndex];
+    if (!segment) return null;
+    if (segment.segment_type !== "driving" && segment.coords) {
+      return [[segment.coords[1], segment.coords[0]]];
     }
+    if (routePoints.length < 2) return null;
 
-    return [39.8283, -98.5795];
-  };
+    const distances = cumulativeDistances(routePoints);
+    const span = segmentRouteSpans(segments || [])[focusIndex];
+    return span.end > span.start
+      ? slicePath(routePoints, span.start, span.end, distances)
+      : [pointAlongPath(routePoints, span.start, distances)];
+  }, [focusIndex, segments, routePoints]);
 
-  if (loading) {
-    return (
-      <div className="h-96 bg-gray-100 rounded-lg flex items-center justify-center">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
-          <p className="text-gray-600">Loading map...</p>
-        </div>
-      </div>
-    );
-  }
+  // Keep the corridor of a planned route for when the signal drops; routes
+  // still being picked change too often to be worth it
+  useEffect(() => {
+    if (pickMode) return;
+    const controller = new AbortController();
+    precacheRouteTiles(tileSource, routePoints, controller.signal);
+    return () => controller.abort();
+  }, [pickMode, routePoints, tileSource]);
 
-  if (!coordinates) {
+  if (routePoints.length < 2 && !pickMode) {
     return (
       <div className="h-96 bg-gray-100 rounded-lg flex items-center justify-center">
         <div className="text-center text-gray-500">
@@ -157,115 +115,49 @@ const MapComponent: React.FC<MapComponentProps> = ({
     );
   }
 
-  const routePoints: [number, number][] = [
-    coordinates.current,
-    coordinates.pickup,
-    coordinates.dropoff,
-  ];
-
   return (
     <MapContainer
-      center={coordinates.current}
-      zoom={5}
-      style={{ height: "400px", width: "100%" }}
+      center={routePoints[0] ?? DEFAULT_CENTER}
+      zoom={routePoints.length ? 5 : 4}
+      style={{
+        height: "400px",
+        width: "100%",
+        cursor: onPick ? "crosshair" : undefined,
+      }}
       className="rounded-lg"
     >
-      <TileLayer
-        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-      />
+      <BaseTileLayer />
 
-      <Polyline
-        positions={routePoints}
-        color="#3b82f6"
-        weight={4}
-        opacity={0.7}
+      <FitBounds
+        points={focusPoints ?? routePoints}
+        maxZoom={focusPoints ? FOCUS_MAX_ZOOM : undefined}
+      />
+      {onPick && <PickHandler onPick={onPick} />}
+
+      <TripRouteLayer
+        routePoints={routePoints}
+        segments={segments}
+        stops={stops}
+        onStopDrag={onStopDrag}
+        activeSegmentIndex={activeSegmentIndex}
+        highlightedSegmentIndex={highlightedSegmentIndex}
+        onSegmentHover={onSegmentHover}
+        onSegmentSelect={onSegmentSelect}
+        timeZone={timeZone}
+        dashed={pickMode}
       />
 
-      <Marker
-        position={coordinates.current}
-        icon={createCustomIcon(iconColors.default)}
-      >
-        <Popup>
-          <div className="text-center">
-            <strong>Current Location</strong>
-            <br />
-            {currentLocation}
-          </div>
-        </Popup>
-      </Marker>
-
-      <Marker
-        position={coordinates.pickup}
-        icon={createCustomIcon(iconColors.pickup)}
-      >
-        <Popup>
-          <div className="text-center">
-            <strong>Pickup Location</strong>
-            <br />
-            {pickupLocation}
-          </div>
-        </Popup>
-      </Marker>
-
-      <Marker
-        position={coordinates.dropoff}
-        icon={createCustomIcon(iconColors.dropoff)}
-      >
-        <Popup>
-          <div className="text-center">
-            <strong>Dropoff Location</strong>
-            <br />
-            {dropoffLocation}
-          </div>
-        </Popup>
-      </Marker>
-
-      {segments?.map((segment, index) => {
-        if (
-          ["fuel", "rest_break", "sleeper_berth"].includes(segment.segment_type)
-        ) {
-       
-          const progress = (index + 1) / (segments.length + 1);
-          const lat =
-            coordinates.current[0] +
-            (coordinates.dropoff[0] - coordinates.current[0]) * progress;
-          const lng =
-            coordinates.current[1] +
-            (coordinates.dropoff[1] - coordinates.current[1]) * progress;
-          const coords: [number, number] = [lat, lng];
-
-          return (
-            <Marker
-              key={index}
-              position={coords}
-              icon={createCustomIcon(
-                iconColors[segment.segment_type as keyof typeof iconColors] ||
-                  iconColors.default
-              )}
-            >
-              <Popup>
-                <div className="text-sm">
-                  <strong>
-                    {segment.segment_type_display || segment.segment_type}
-                  </strong>
-                  <br />
-                  Location: {segment.location}
-                  <br />
-                  Duration: {segment.duration_hours}h<br />
-                  {segment.formatted_start_time && (
-                    <>
-                      Time: {segment.formatted_start_time} -{" "}
-                      {segment.formatted_end_time}
-                    </>
-                  )}
-                </div>
-              </Popup>
-            </Marker>
-          );
-        }
-        return null;
-      })}
+      {livePosition && (
+        <Marker
+          position={livePosition}
+          icon={createCustomIcon(iconColors.live, true)}
+          zIndexOffset={1000}
+        >
+          <Tooltip permanent direction="top" offset={[0, -32]}>
+            Truck
+          </Tooltip>
+        </Marker>
+      )}
     </MapContainer>
   );
 };
@@ -0,0 +1,110 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { Link } from "react-router";
+import { CheckCircle, CloudOff, Loader2, X } from "lucide-react";
+import type { TripLocationState } from "../hooks/useTrip";
+import { useOnlineStatus } from "../hooks/useOnlineStatus";
+import { describeRoute } from "../utils/stops";
+import {
+  discardQueuedTrip,
+  dismissPlannedTrip,
+  getTripOutbox,
+  startTripOutbox,
+  subscribeTripOutbox,
+  type QueuedTrip,
+} from "../utils/tripOutbox";
+
+const describeQueued = ({ stops }: QueuedTrip) =>
+  stops.map((stop) => stop.name).join(" → ");
+
+/**
+ * Connection status and the queue of trips requested offline: what is still
+ * waiting, what the backend refused, and links to trips planned since the
+ * connection came back. Renders nothing while online with an empty queue.
+ */
+const OfflineBanner: React.FC = () => {
+  const online = useOnlineStatus();
+  const { queued, planned } = useSyncExternalStore(
+    subscribeTripOutbox,
+    getTripOutbox
+  );
+
+  useEffect(() => startTripOutbox(), []);
+
+  if (online && queued.length === 0 && planned.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-2 text-sm" role="status">
+      {!online && (
+        <div className="flex items-center p-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-md">
+          <CloudOff className="w-4 h-4 mr-2 shrink-0" aria-hidden="true" />
+          You're offline. Saved trips still open, and new trips are queued
+          until the connection returns.
+        </div>
+      )}
+
+      {queued.map((entry) => (
+        <div
+          key={entry.id}
+          className={`flex items-center p-3 border rounded-md ${
+            entry.error
+              ? "bg-red-50 border-red-200 text-red-700"
+              : "bg-white border-gray-200 text-gray-700"
+          }`}
+        >
+          {!entry.error && (
+            <Loader2
+              className={`w-4 h-4 mr-2 shrink-0 ${online ? "animate-spin" : ""}`}
+              aria-hidden="true"
+            />
+          )}
+          <span className="min-w-0 mr-auto">
+            <span className="font-medium">{describeQueued(entry)}</span>
+            {" · "}
+            {entry.error
+              ? `Not planned: ${entry.error}`
+              : `Queued ${new Date(entry.queued_at).toLocaleTimeString([], {
+                  timeStyle: "short",
+                })}`}
+          </span>
+          <button
+            type="button"
+            onClick={() => discardQueuedTrip(entry.id)}
+            className="ml-3 shrink-0 px-2 py-1 border rounded-md hover:bg-gray-50"
+          >
+            Discard
+          </button>
+        </div>
+      ))}
+
+      {planned.map((trip) => (
+        <div
+          key={trip.id}
+          className="flex items-center p-3 bg-green-50 border border-green-200 text-green-800 rounded-md"
+        >
+          <CheckCircle className="w-4 h-4 mr-2 shrink-0" aria-hidden="true" />
+          <span className="min-w-0 mr-auto">
+            Queued trip planned: {describeRoute(trip)}
+          </span>
+          <Link
+            to={`/trips/${trip.id}`}
+            state={{ trip } satisfies TripLocationState}
+            onClick={() => dismissPlannedTrip(trip.id)}
+            className="ml-3 shrink-0 font-medium text-blue-600 hover:underline"
+          >
+            Open
+          </Link>
+          <button
+            type="button"
+            onClick={() => dismissPlannedTrip(trip.id)}
+            aria-label="Dismiss"
+            className="ml-2 shrink-0 p-1 rounded-md hover:bg-green-100"
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default OfflineBanner;
@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { Link } from "react-router";
+import { ArrowRight, Loader2, RefreshCw } from "lucide-react";
+import { createTrip } from "../api/trips";
+import { coordinateLocation, reverseGeocode } from "../api/geocode";
+import type { Location, TripResult, TripSegment } from "../api/types";
+import type { TripLocationState } from "../hooks/useTrip";
+import type { PositionFix } from "../utils/tracking";
+import {
+  buildReplanRequest,
+  diffSchedules,
+  hoursUsedBy,
+  withCompletedSegments,
+  type ScheduleChange,
+} from "../utils/replan";
+import {
+  browserTimeZone,
+  formatZonedTime,
+  toZonedInput,
+  zonedTimeToEpoch,
+} from "../utils/time";
+import LocationSelect from "./LocationSelect";
+
+interface ReplanPanelProps {
+  trip: TripResult;
+  /** Latest tracked position, used as the default replanning point. */
+  fix: PositionFix | null;
+}
+
+const KIND_LABELS: Record<ScheduleChange["kind"], string> = {
+  stop: "Stop",
+  fuel: "Fuel",
+  rest: "Rest",
+};
+
+const formatTime = (segment: TripSegment, timeZone?: string) =>
+  isNaN(Date.parse(segment.start_time))
+    ? segment.formatted_start_time || segment.start_time
+    : formatZonedTime(segment.start_time, segment.timezone ?? timeZone);
+
+const formatDelta = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  if (rounded === 0) return "same time";
+  const abs = Math.abs(rounded);
+  const amount =
+    abs < 60 ? `${abs} min` : `${Math.floor(abs / 60)}h ${abs % 60}m`;
+  return `${amount} ${rounded > 0 ? "later" : "earlier"}`;
+};
+
+/**
+ * "Replan from here": plans the rest of a trip from the driver's current
+ * position, time and cycle hours, and shows what moved against the old plan.
+ */
+const ReplanPanel: React.FC<ReplanPanelProps> = ({ trip, fix }) => {
+  // The time is entered on the home terminal's clock, like the departure
+  const timeZone = trip.home_terminal_timezone ?? browserTimeZone();
+  const [open, setOpen] = useState(false);
+  const [position, setPosition] = useState<Location | null>(null);
+  const [time, setTime] = useState("");
+  const [hoursUsed, setHoursUsed] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{
+    trip: TripResult;
+    changes: ScheduleChange[];
+  } | null>(null);
+
+  const startReplan = () => {
+    const now = fix?.timestamp ?? Date.now();
+    setOpen(true);
+    setResult(null);
+    setError(null);
+    setTime(toZonedInput(now, timeZone));
+    setHoursUsed(hoursUsedBy(trip, now).toFixed(1));
+
+    if (!fix) {
+      setPosition(null);
+      return;
+    }
+
+    // Start from the tracked point and name it once the lookup returns
+    const tracked = coordinateLocation([fix.coords[1], fix.coords[0]]);
+    setPosition(tracked);
+    reverseGeocode(tracked.coords)
+      .then((named) =>
+        setPosition((current) => (current?.id === tracked.id ? named : current))
+      )
+      .catch((err) => console.error("Reverse geocoding error:", err));
+  };
+
+  const handleReplan = async () => {
+    const now = time ? zonedTimeToEpoch(time, timeZone) : NaN;
+    if (!position || Number.isNaN(now)) {
+      setError("Choose where the truck is and the current time");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const request = buildReplanRequest(trip, {
+        position,
+        now,
+        hoursUsed: parseFloat(hoursUsed) || 0,
+      });
+      if (!request.stops.length) {
+        throw new Error("Every stop of this trip has already been reached");
+      }
+
+      const replanned = withCompletedSegments(
+        await createTrip(request),
+        request
+      );
+      setResult({
+        trip: replanned,
+        changes: diffSchedules(
+          trip.segments || [],
+          replanned.segments || [],
+          now
+        ),
+      });
+    } catch (err) {
+      console.error("Replan error:", err);
+      setError(err instanceof Error ? err.message : "Failed to replan trip");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={startReplan}
+        className="flex items-center px-3 py-1.5 text-sm font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50"
+      >
+        <RefreshCw className="w-4 h-4 mr-1" aria-hidden="true" />
+        Replan from here
+      </button>
+    );
+  }
+
+  const state: TripLocationState | undefined = result
+    ? { trip: result.trip }
+    : undefined;
+
+  return (
+    <div className="p-4 border rounded-lg">
+      <h3 className="font-semibold mb-3 flex items-center">
+        <RefreshCw className="w-4 h-4 mr-2 text-blue-600" aria-hidden="true" />
+        Replan From Here
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <LocationSelect
+          label="Truck position"
+          value={position}
+          onChange={setPosition}
+          placeholder="Where is the truck now?"
+          showCurrentPosition
+        />
+        <div>
+          <label
+            htmlFor="replan-time"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Current time
+          </label>
+          <input
+            id="replan-time"
+            type="datetime-local"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            aria-describedby="replan-time-help"
+            className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <div id="replan-time-help" className="text-xs text-gray-600 mt-1">
+            In home terminal time.
+          </div>
+        </div>
+        <div>
+          <label
+            htmlFor="replan-hours"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Cycle hours used
+          </label>
+          <input
+            id="replan-hours"
+            type="number"
+            min="0"
+            step="0.25"
+            value={hoursUsed}
+            onChange={(e) => setHoursUsed(e.target.value)}
+            aria-describedby="replan-hours-help"
+            className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <div id="replan-hours-help" className="text-xs text-gray-600 mt-1">
+            Estimated from the plan; correct it from the driver's log.
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <button
+          type="button"
+          onClick={handleReplan}
+          disabled={loading || !position}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+        >
+          {loading && (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" aria-hidden="true" />
+          )}
+          {loading ? "Replanning..." : "Replan"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="px-4 py-2 border rounded-md hover:bg-gray-50 text-sm"
+        >
+          Cancel
+        </button>
+      </div>
+
+      {error && (
+        <div
+          role="alert"
+          className="mt-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded-md text-sm"
+        >
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-medium">Schedule changes</h4>
+            <Link
+              to={`/trips/${result.trip.id}`}
+              state={state}
+              className="flex items-center text-sm text-blue-600 hover:underline"
+            >
+              Open new plan #{result.trip.id}
+              <ArrowRight className="w-4 h-4 ml-1" aria-hidden="true" />
+            </Link>
+          </div>
+          {result.changes.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No stops left to compare.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-2 font-medium">Type</th>
+                  <th className="py-2 pr-2 font-medium">Old plan</th>
+                  <th className="py-2 pr-2 font-medium">New plan</th>
+                  <th className="py-2 font-medium">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.changes.map((change, index) => (
+                  <tr key={index} className="border-b last:border-0">
+                    <td className="py-2 pr-2">
+                      {KIND_LABELS[change.kind]}
+                      {(change.after ?? change.before)?.segment_type_display &&
+                        ` · ${(change.after ?? change.before)!
+                          .segment_type_display}`}
+                    </td>
+                    <td className="py-2 pr-2">
+                      {change.before ? (
+                        <>
+                          <div>{change.before.location}</div>
+                          <div className="text-xs text-gray-600">
+                            {formatTime(
+                              change.before,
+                              trip.home_terminal_timezone
+                            )}
+                          </div>
+                        </>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td className="py-2 pr-2">
+                      {change.after ? (
+                        <>
+                          <div>{change.after.location}</div>
+                          <div className="text-xs text-gray-600">
+                            {formatTime(
+                              change.after,
+                              trip.home_terminal_timezone
+                            )}
+                          </div>
+                        </>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td className="py-2">
+                      {!change.after ? (
+                        <span className="text-gray-700">Dropped</span>
+                      ) : !change.before ? (
+                        <span className="text-orange-700">Added</span>
+                      ) : (
+                        <span
+                          className={
+                            (change.deltaMinutes ?? 0) > 0
+                              ? "text-red-700"
+                              : "text-gray-700"
+                          }
+                        >
+                          {change.moved && "Moved, "}
+                          {formatDelta(change.deltaMinutes ?? 0)}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReplanPanel;
@@ -0,0 +1,164 @@
+import type { TripSegment } from "../api/types";
+import { iconColors } from "../utils/mapIcons";
+import { segmentTimes } from "../utils/time";
+import type { TripTimeline } from "../utils/timeline";
+
+interface ScheduleTimelineProps {
+  timeline: TripTimeline;
+  segments: TripSegment[];
+  /** Zone for segment times without one of their own. */
+  timeZone?: string;
+  highlightedIndex: number | null;
+  selectedIndex: number | null;
+  onHover: (index: number | null) => void;
+  /** Called with the clicked segment; clicking the selected one clears it. */
+  onSelect: (index: number | null) => void;
+}
+
+const HOUR_MS = 3_600_000;
+
+// Below this the timeline scrolls rather than squeezing the bars together
+const MIN_HOUR_WIDTH = 12;
+
+const HOUR_TICKS = [
+  { hour: 6, label: "6a" },
+  { hour: 12, label: "Noon" },
+  { hour: 18, label: "6p" },
+];
+
+const barColor = (type: string) =>
+  iconColors[type as keyof typeof iconColors] ?? iconColors.default;
+
+const segmentLabel = (segment: TripSegment) =>
+  segment.segment_type_display || segment.segment_type;
+
+/**
+ * Every segment of a trip on one horizontal time axis, split into the same
+ * midnight-to-midnight days as the daily logs. Hovering or focusing a bar
+ * highlights the segment; clicking it selects it.
+ */
+const ScheduleTimeline: React.FC<ScheduleTimelineProps> = ({
+  timeline,
+  segments,
+  timeZone,
+  highlightedIndex,
+  selectedIndex,
+  onHover,
+  onSelect,
+}) => {
+  const span = timeline.end - timeline.start;
+  const percent = (time: number) => ((time - timeline.start) / span) * 100;
+  // One legend entry per segment type, in order of first appearance
+  const legend = new Map<string, string>();
+  for (const segment of segments) {
+    if (!legend.has(segment.segment_type)) {
+      legend.set(segment.segment_type, segmentLabel(segment));
+    }
+  }
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <div
+          className="relative"
+          style={{ minWidth: (span / HOUR_MS) * MIN_HOUR_WIDTH }}
+        >
+          <div className="relative h-6">
+            {timeline.days.map((day) => (
+              <div
+                key={day.dayNumber}
+                className="absolute top-0 h-full px-1 text-xs font-medium text-gray-700 truncate"
+                style={{
+                  left: `${percent(day.start)}%`,
+                  width: `${percent(day.end) - percent(day.start)}%`,
+                }}
+              >
+                Day {day.dayNumber}
+                {day.log &&
+                  ` · ${day.log.formatted_date || day.log.log_date}`}
+              </div>
+            ))}
+          </div>
+
+          <div className="relative h-4 text-[10px] text-gray-500">
+            {timeline.days.flatMap((day) =>
+              HOUR_TICKS.map(({ hour, label }) => (
+                <span
+                  key={`${day.dayNumber}-${hour}`}
+                  className="absolute -translate-x-1/2"
+                  style={{ left: `${percent(day.start + hour * HOUR_MS)}%` }}
+                >
+                  {label}
+                </span>
+              ))
+            )}
+          </div>
+
+          <div
+            className="relative h-10 bg-gray-50 rounded"
+            onMouseLeave={() => onHover(null)}
+          >
+            {timeline.bars.map((bar) => {
+              const segment = segments[bar.segmentIndex];
+              const times = segmentTimes(segments, bar.segmentIndex, timeZone);
+              const label = `${segmentLabel(segment)} · ${segment.location}${
+                times ? ` · ${times.start} – ${times.end}` : ""
+              }`;
+              const selected = selectedIndex === bar.segmentIndex;
+              const highlighted = highlightedIndex === bar.segmentIndex;
+
+              return (
+                <button
+                  key={bar.segmentIndex}
+                  type="button"
+                  title={label}
+                  aria-label={label}
+                  aria-pressed={selected}
+                  onMouseEnter={() => onHover(bar.segmentIndex)}
+                  onFocus={() => onHover(bar.segmentIndex)}
+                  onBlur={() => onHover(null)}
+                  onClick={() => onSelect(selected ? null : bar.segmentIndex)}
+                  className={`absolute top-1 bottom-1 rounded-sm outline-none ${
+                    highlighted || selected
+                      ? "z-10 ring-2 ring-offset-1 ring-amber-400"
+                      : "opacity-90 hover:opacity-100"
+                  }`}
+                  style={{
+                    left: `${percent(bar.start)}%`,
+                    width: `${percent(bar.end) - percent(bar.start)}%`,
+                    minWidth: 3,
+                    backgroundColor: barColor(segment.segment_type),
+                  }}
+                />
+              );
+            })}
+          </div>
+
+          {timeline.days.map((day) => (
+            <div
+              key={day.dayNumber}
+              className="absolute top-0 bottom-0 border-l border-dashed border-gray-400 pointer-events-none"
+              style={{ left: `${percent(day.start)}%` }}
+              aria-hidden="true"
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-600">
+        {[...legend].map(([type, label]) => (
+          <span key={type} className="flex items-center">
+            <span
+              className="inline-block w-3 h-3 rounded-sm mr-1"
+              style={{ backgroundColor: barColor(type) }}
+              aria-hidden="true"
+            />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleTimeline;
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import { axe } from "../test/axe";
+import { createStopDraft, type StopDraft } from "../utils/stops";
+import StopList from "./StopList";
+
+vi.mock("../api/geocode", () => ({
+  geocodeAutocomplete: vi.fn(),
+  reverseGeocode: vi.fn(),
+  coordinateLocation: vi.fn(),
+}));
+
+const Harness: React.FC<{ initial: StopDraft[] }> = ({ initial }) => {
+  const [stops, setStops] = useState(initial);
+  return <StopList stops={stops} onChange={setStops} />;
+};
+
+const twoStops = () => [createStopDraft("pickup"), createStopDraft("dropoff")];
+
+describe("StopList", () => {
+  it("labels every control with its stop number", async () => {
+    render(<Harness initial={twoStops()} />);
+
+    for (const number of [1, 2]) {
+      expect(
+        screen.getByRole("combobox", { name: `Stop ${number}` })
+      ).toBeTruthy();
+      expect(
+        screen.getByRole("combobox", {
+          name: new RegExp(`Stop ${number} location`),
+        })
+      ).toBeTruthy();
+      expect(
+        screen.getByRole("spinbutton", {
+          name: new RegExp(`Dwell \\(h\\)\\s*at stop ${number}`),
+        })
+      ).toBeTruthy();
+      expect(
+        screen.getByRole("button", { name: `Move stop ${number} up` })
+      ).toBeTruthy();
+      expect(
+        screen.getByRole("button", { name: `Move stop ${number} down` })
+      ).toBeTruthy();
+      expect(
+        screen.getByRole("button", { name: `Remove stop ${number}` })
+      ).toBeTruthy();
+    }
+    expect(await axe(document.body)).toHaveNoViolations();
+  });
+
+  it("disables the moves and removals that don't apply", async () => {
+    const user = userEvent.setup();
+    render(<Harness initial={twoStops()} />);
+
+    const button = (name: string) =>
+      screen.getByRole("button", { name }) as HTMLButtonElement;
+    expect(button("Move stop 1 up").disabled).toBe(true);
+    expect(button("Move stop 2 down").disabled).toBe(true);
+    expect(button("Remove stop 1").disabled).toBe(true);
+
+    await user.click(button("Add stop"));
+
+    expect(button("Remove stop 3").disabled).toBe(false);
+    expect(await axe(document.body)).toHaveNoViolations();
+  });
+
+  it("announces moved and removed stops", async () => {
+    const user = userEvent.setup();
+    render(
+      <Harness initial={[...twoStops(), createStopDraft("waypoint")]} />
+    );
+
+    // The first status region is the list's; each location field has one
+    const announcer = screen.getAllByRole("status")[0];
+
+    await user.click(screen.getByRole("button", { name: "Move stop 1 down" }));
+    expect(announcer.textContent).toBe("Pickup stop moved to position 2 of 3");
+    expect(
+      (screen.getByRole("combobox", { name: "Stop 2" }) as HTMLSelectElement)
+        .value
+    ).toBe("pickup");
+
+    await user.click(screen.getByRole("button", { name: "Remove stop 3" }));
+    expect(announcer.textContent).toBe("Stop 3 removed");
+    expect(
+      within(document.body).queryByRole("combobox", { name: "Stop 3" })
+    ).toBeNull();
+  });
+});
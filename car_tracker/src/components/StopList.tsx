@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, GripVertical, Plus, Trash2 } from "lucide-react";
+import LocationSelect from "./LocationSelect";
+import {
+  STOP_TYPE_LABELS,
+  createStopDraft,
+  type StopDraft,
+} from "../utils/stops";
+
+interface StopListProps {
+  stops: StopDraft[];
+  onChange: (stops: StopDraft[]) => void;
+}
+
+const STOP_TYPE_OPTIONS: StopDraft["stop_type"][] = [
+  "pickup",
+  "dropoff",
+  "waypoint",
+];
+
+const StopList: React.FC<StopListProps> = ({ stops, onChange }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Rows only become draggable from the grip, so text in the inputs can still
+  // be selected with the mouse.
+  const [handleIndex, setHandleIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+
+  const updateStop = (index: number, changes: Partial<StopDraft>) => {
+    onChange(
+      stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop))
+    );
+  };
+
+  const moveStop = (from: number, to: number) => {
+    if (to < 0 || to >= stops.length || from === to) return;
+    const reordered = [...stops];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    onChange(reordered);
+    setAnnouncement(
+      `${STOP_TYPE_LABELS[moved.stop_type]} stop moved to position ${to + 1} of ${stops.length}`
+    );
+  };
+
+  const removeStop = (index: number) => {
+    onChange(stops.filter((_, i) => i !== index));
+    setAnnouncement(`Stop ${index + 1} removed`);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) moveStop(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
+      {stops.map((stop, index) => (
+        <div
+          key={stop.id}
+          draggable={handleIndex === index}
+          onDragStart={(e) => {
+            setDragIndex(index);
+            e.dataTransfer.effectAllowed = "move";
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDropIndex(index);
+          }}
+          onDragLeave={() => setDropIndex(null)}
+          onDrop={() => handleDrop(index)}
+          onDragEnd={() => {
+            setDragIndex(null);
+            setDropIndex(null);
+            setHandleIndex(null);
+          }}
+          className={`flex items-start gap-3 p-3 border rounded-lg bg-gray-50 transition-colors ${
+            dropIndex === index && dragIndex !== index
+              ? "border-blue-500 bg-blue-50"
+              : "border-gray-200"
+          } ${dragIndex === index ? "opacity-50" : ""}`}
+        >
+          <div className="flex flex-col items-center pt-8 text-gray-400">
+            <GripVertical
+              className="w-5 h-5 cursor-grab"
+              aria-hidden="true"
+              onMouseDown={() => setHandleIndex(index)}
+              onMouseUp={() => setHandleIndex(null)}
+            />
+            <button
+              type="button"
+              onClick={() => moveStop(index, index - 1)}
+              disabled={index === 0}
+              className="hover:text-gray-700 disabled:opacity-30"
+              aria-label={`Move stop ${index + 1} up`}
+            >
+              <ArrowUp className="w-4 h-4" aria-hidden="true" />
+            </button>
+            <button
+              type="button"
+              onClick={() => moveStop(index, index + 1)}
+              disabled={index === stops.length - 1}
+              className="hover:text-gray-700 disabled:opacity-30"
+              aria-label={`Move stop ${index + 1} down`}
+            >
+              <ArrowDown className="w-4 h-4" aria-hidden="true" />
+            </button>
+          </div>
+
+          <div className="flex-1 grid grid-cols-1 md:grid-cols-[140px_1fr_120px] gap-3">
+            <div>
+              <label
+                htmlFor={`stop-${stop.id}-type`}
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Stop {index + 1}
+              </label>
+              <select
+                id={`stop-${stop.id}-type`}
+                value={stop.stop_type}
+                onChange={(e) =>
+                  updateStop(index, {
+                    stop_type: e.target.value as StopDraft["stop_type"],
+                  })
+                }
+                className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors bg-white"
+              >
+                {STOP_TYPE_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {STOP_TYPE_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <LocationSelect
+              label={`Stop ${index + 1} location`}
+              value={stop.location}
+              onChange={(location) => updateStop(index, { location })}
+              placeholder={`Search for ${stop.stop_type} city...`}
+              required
+            />
+
+            <div>
+              <label
+                htmlFor={`stop-${stop.id}-dwell`}
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Dwell (h)
+                <span className="sr-only"> at stop {index + 1}</span>
+              </label>
+              <input
+                id={`stop-${stop.id}-dwell`}
+                type="number"
+                value={stop.dwell_hours ?? ""}
+                onChange={(e) =>
+                  updateStop(index, {
+                    dwell_hours:
+                      e.target.value === "" ? null : parseFloat(e.target.value),
+                  })
+                }
+                min="0"
+                step="0.25"
+                className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder={stop.stop_type === "waypoint" ? "0" : "1"}
+              />
+            </div>
+          </div>
+
+          <button
+            type="button"
+            onClick={() => removeStop(index)}
+            disabled={stops.length <= 2}
+            className="mt-9 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+            aria-label={`Remove stop ${index + 1}`}
+          >
+            <Trash2 className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...stops, createStopDraft()])}
+        className="flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+      >
+        <Plus className="w-4 h-4 mr-1" aria-hidden="true" />
+        Add stop
+      </button>
+    </div>
+  );
+};
+
+export default StopList;
@@ -0,0 +1,232 @@
+import { useState, useEffect, useRef } from "react";
+import { History, Loader2, Search, ChevronLeft, ChevronRight } from "lucide-react";
+import { ApiError, isAbortError } from "../api/client";
+import { getTrip, listTrips } from "../api/trips";
+import type { TripPage, TripResult } from "../api/types";
+import { listSavedTrips } from "../utils/savedTrips";
+import { describeRoute } from "../utils/stops";
+
+interface TripHistoryProps {
+  onOpen: (trip: TripResult) => void;
+}
+
+const PAGE_SIZE = 10;
+
+// The backend's search and date filters, applied to trips saved offline
+const matchesFilters = (trip: TripResult, search: string, date: string) =>
+  (!search ||
+    describeRoute(trip).toLowerCase().includes(search.toLowerCase())) &&
+  (!date || new Date(trip.created_at).toLocaleDateString("en-CA") === date);
+
+/**
+ * Lists trips already planned on the backend. Uses the paginated
+ * `GET /trips/?page=&page_size=&search=&date=` endpoint, where `search`
+ * matches any stop name and `date` (YYYY-MM-DD) filters on `created_at`.
+ * When the backend can't be reached it lists the trips saved on this device.
+ */
+export default function TripHistory({ onOpen }: TripHistoryProps) {
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [date, setDate] = useState("");
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<TripPage | null>(null);
+  const [savedTrips, setSavedTrips] = useState<TripResult[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [opening, setOpening] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const debounceRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+
+    debounceRef.current = setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      setPage(1);
+    }, 500);
+
+    return () => {
+      if (debounceRef.current) {
+        clearTimeout(debounceRef.current);
+      }
+    };
+  }, [search]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchTrips = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        setData(
+          await listTrips(
+            {
+              page,
+              pageSize: PAGE_SIZE,
+              search: debouncedSearch || undefined,
+              date: date || undefined,
+            },
+            controller.signal
+          )
+        );
+        setSavedTrips(null);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error("Trip history error:", err);
+
+        if (err instanceof ApiError && err.retryable) {
+          const saved = await listSavedTrips();
+          if (controller.signal.aborted) return;
+          setSavedTrips(
+            saved.filter((trip) => matchesFilters(trip, debouncedSearch, date))
+          );
+          return;
+        }
+
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to load trips";
+        setError(`Could not load trip history: ${errorMessage}`);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchTrips();
+
+    return () => controller.abort();
+  }, [page, debouncedSearch, date]);
+
+  const handleOpen = async (trip: TripResult) => {
+    // List rows may be summaries; fetch the stored plan when they are
+    if (trip.segments && trip.daily_logs) {
+      onOpen(trip);
+      return;
+    }
+
+    try {
+      setOpening(trip.id);
+      setError(null);
+
+      onOpen(await getTrip(trip.id));
+    } catch (err) {
+      console.error("Trip detail error:", err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to load trip";
+      setError(`Could not open trip #${trip.id}: ${errorMessage}`);
+    } finally {
+      setOpening(null);
+    }
+  };
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.count / PAGE_SIZE)) : 1;
+  const trips = savedTrips ?? data?.results;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <History className="mr-2 text-blue-600" />
+        Trip History
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_200px] gap-4 mb-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-3.5 w-4 h-4 text-gray-400" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by location..."
+            className="w-full p-3 pl-9 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+          />
+        </div>
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => {
+            setDate(e.target.value);
+            setPage(1);
+          }}
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+          aria-label="Created on"
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {savedTrips && !loading && (
+        <div
+          role="status"
+          className="mb-4 p-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-md text-sm"
+        >
+          Can't reach the server; showing trips saved on this device.
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8 text-gray-500">
+          <Loader2 className="h-5 w-5 animate-spin mr-2" />
+          Loading trips...
+        </div>
+      ) : trips && trips.length === 0 ? (
+        <div className="py-8 text-center text-gray-500 text-sm">
+          No trips found.
+        </div>
+      ) : (
+        <ul className="divide-y border rounded-lg">
+          {trips?.map((trip) => (
+            <li
+              key={trip.id}
+              className="flex items-center justify-between p-3 hover:bg-gray-50"
+            >
+              <div className="min-w-0">
+                <div className="font-medium truncate">{describeRoute(trip)}</div>
+                <div className="text-xs text-gray-500">
+                  #{trip.id} · {new Date(trip.created_at).toLocaleString()} ·{" "}
+                  {trip.total_distance} mi · {trip.total_duration}h
+                </div>
+              </div>
+              <button
+                onClick={() => handleOpen(trip)}
+                disabled={opening !== null}
+                className="ml-4 shrink-0 px-3 py-1.5 text-sm font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 disabled:opacity-50"
+              >
+                {opening === trip.id ? "Opening..." : "Open"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!savedTrips && data && data.count > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4 text-sm">
+          <button
+            onClick={() => setPage((p) => p - 1)}
+            disabled={!data.previous || loading}
+            className="flex items-center px-3 py-1.5 border rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ChevronLeft className="w-4 h-4 mr-1" />
+            Previous
+          </button>
+          <span className="text-gray-600">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage((p) => p + 1)}
+            disabled={!data.next || loading}
+            className="flex items-center px-3 py-1.5 border rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Next
+            <ChevronRight className="w-4 h-4 ml-1" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
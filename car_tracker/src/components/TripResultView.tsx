@@ -0,0 +1,414 @@
+import React, { useMemo, useState } from "react";
+import { Clock, FileText, Route, Fuel, Download } from "lucide-react";
+import type { StopType, TripResult } from "../api/types";
+import CostPanel from "./CostPanel";
+import MapComponent from "./MapComponent";
+import DailyLogCard from "./DailyLogCard";
+import FuelPlanPanel from "./FuelPlanPanel";
+import HosCompliancePanel from "./HosCompliancePanel";
+import ReplanPanel from "./ReplanPanel";
+import ScheduleTimeline from "./ScheduleTimeline";
+import TripTracker from "./TripTracker";
+import type { PositionSource } from "../hooks/usePositionFeed";
+import { useFuelPlan } from "../hooks/useFuelPlan";
+import { useTripTracking } from "../hooks/useTripTracking";
+import { formatCurrency, type FuelStopPlan } from "../utils/fuelPlan";
+import { exportTripPdf } from "../utils/tripPdf";
+import { STOP_TYPE_LABELS } from "../utils/stops";
+import { segmentTimes } from "../utils/time";
+import { buildTripTimeline, segmentDayHours } from "../utils/timeline";
+import {
+  DEFAULT_RULE_SET,
+  HOS_RULE_LABELS,
+  HOS_RULE_SETS,
+  validateTrip,
+} from "../utils/hosRules";
+
+interface TripResultViewProps {
+  /** The trip as shown, daily logs corrected by their edits. */
+  trip: TripResult;
+  /**
+   * The trip as planned, handed on to the log pages, which save it on this
+   * device and apply the edits themselves. Defaults to `trip`.
+   */
+  plannedTrip?: TripResult;
+}
+
+const getSegmentTypeColor = (type: string): string => {
+  const colors: Record<string, string> = {
+    driving: "bg-red-500",
+    fuel: "bg-yellow-500",
+    pickup: "bg-green-500",
+    dropoff: "bg-green-600",
+    sleeper_berth: "bg-blue-500",
+    rest_break: "bg-purple-500",
+  };
+  return colors[type] || "bg-gray-300";
+};
+
+const getStopChipColor = (type: StopType): string => {
+  const colors: Record<StopType, string> = {
+    current: "bg-blue-100 text-blue-700",
+    pickup: "bg-green-100 text-green-700",
+    dropoff: "bg-red-100 text-red-700",
+    waypoint: "bg-orange-100 text-orange-700",
+  };
+  return colors[type];
+};
+
+const describeFuelStop = ({ gallons, cost, pricePerGallon }: FuelStopPlan) => {
+  if (gallons <= 0) return "Enough fuel on board; skip this stop";
+  const amount = `Buy ≈ ${Math.round(gallons)} gal`;
+  return cost !== null && pricePerGallon !== null
+    ? `${amount} · ${formatCurrency(cost)} at ${formatCurrency(
+        pricePerGallon
+      )}/gal`
+    : amount;
+};
+
+/** Summary, map, segment schedule and daily logs of one planned trip. */
+const TripResultView: React.FC<TripResultViewProps> = ({
+  trip,
+  plannedTrip = trip,
+}) => {
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string>("");
+  const [trackingSource, setTrackingSource] = useState<PositionSource | null>(
+    null
+  );
+  const tracking = useTripTracking(trip, trackingSource);
+  const activeSegmentIndex = tracking.progress?.segmentIndex;
+
+  // Results are judged by the rule set they were planned under
+  const ruleSet = HOS_RULE_SETS[trip.hos_rule_set || DEFAULT_RULE_SET];
+
+  const hosViolations = useMemo(() => validateTrip(trip), [trip]);
+  const fuel = useFuelPlan(trip);
+
+  // A segment hovered or selected in the timeline, map or list is shown in
+  // all of them and in the log days it falls on; selecting zooms the map
+  const timeline = useMemo(() => buildTripTimeline(trip), [trip]);
+  const [hoveredSegment, setHoveredSegment] = useState<number | null>(null);
+  const [selectedSegment, setSelectedSegment] = useState<number | null>(null);
+  const highlightedSegment = hoveredSegment ?? selectedSegment;
+  const highlightedDayHours = useMemo(
+    () =>
+      timeline && highlightedSegment !== null
+        ? segmentDayHours(timeline, highlightedSegment)
+        : null,
+    [timeline, highlightedSegment]
+  );
+
+  const toggleSegment = (index: number) =>
+    setSelectedSegment((selected) => (selected === index ? null : index));
+
+  const handleExportPdf = async () => {
+    setExporting(true);
+    setExportError("");
+    try {
+      await exportTripPdf(trip);
+    } catch (err) {
+      console.error("PDF export error:", err);
+      setExportError("Failed to export PDF");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-semibold flex items-center">
+            <Route className="mr-2 text-blue-600" />
+            Route Summary
+          </h2>
+          <button
+            onClick={handleExportPdf}
+            disabled={exporting}
+            className="flex items-center px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {exporting ? "Exporting..." : "Export PDF"}
+          </button>
+        </div>
+        {exportError && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded-md text-sm">
+            {exportError}
+          </div>
+        )}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="text-center p-4 bg-blue-50 rounded-lg border border-blue-200">
+            <Route className="w-8 h-8 mx-auto mb-2 text-blue-600" />
+            <div className="text-2xl font-bold text-blue-700">
+              {trip.total_distance}
+            </div>
+            <div className="text-sm text-gray-600">Miles</div>
+          </div>
+          <div className="text-center p-4 bg-green-50 rounded-lg border border-green-200">
+            <Clock className="w-8 h-8 mx-auto mb-2 text-green-600" />
+            <div className="text-2xl font-bold text-green-700">
+              {trip.total_duration}h
+            </div>
+            <div className="text-sm text-gray-600">Driving Time</div>
+            <div className="text-xs text-gray-500">
+              {ruleSet.limits.maxDrivingHours}h/shift ·{" "}
+              {ruleSet.limits.cycleHours}h/{ruleSet.limits.cycleDays} days
+            </div>
+          </div>
+          <div className="text-center p-4 bg-yellow-50 rounded-lg border border-yellow-200">
+            <Fuel className="w-8 h-8 mx-auto mb-2 text-yellow-600" />
+            <div className="text-2xl font-bold text-yellow-700">
+              {trip.fuel_stops}
+            </div>
+            <div className="text-sm text-gray-600">Fuel Stops</div>
+            {fuel.priced && fuel.plan.totalCost > 0 && (
+              <div className="text-xs text-gray-500">
+                ≈ {formatCurrency(fuel.plan.totalCost)} fuel
+              </div>
+            )}
+          </div>
+          <div className="text-center p-4 bg-purple-50 rounded-lg border border-purple-200">
+            <FileText className="w-8 h-8 mx-auto mb-2 text-purple-600" />
+            <div className="text-2xl font-bold text-purple-700">
+              {trip.required_rest_stops}
+            </div>
+            <div className="text-sm text-gray-600">Rest Periods</div>
+          </div>
+        </div>
+
+        <div className="mt-6 p-4 bg-gray-50 rounded-lg">
+          <h3 className="font-semibold mb-2">Calculated Route:</h3>
+          <div className="flex items-center gap-2 text-sm flex-wrap">
+            {(trip.stops || []).map((stop, index) => (
+              <React.Fragment key={index}>
+                {index > 0 && <span>→</span>}
+                <span
+                  className={`px-2 py-1 rounded ${getStopChipColor(
+                    stop.stop_type
+                  )}`}
+                  title={STOP_TYPE_LABELS[stop.stop_type]}
+                >
+                  {stop.name}
+                  {stop.dwell_hours ? ` (${stop.dwell_hours}h)` : ""}
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+          <div className="mt-2 text-xs text-gray-600">
+            Distance calculated using real coordinates and routing
+            algorithms
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <HosCompliancePanel
+            violations={hosViolations}
+            ruleSet={ruleSet}
+          />
+        </div>
+
+        <div className="mt-4">
+          <FuelPlanPanel
+            plan={fuel.plan}
+            segments={trip.segments || []}
+            priced={fuel.priced}
+            sourceLabel={fuel.sourceLabel}
+            error={fuel.error}
+          />
+        </div>
+
+        <div className="mt-4">
+          <CostPanel
+            trip={trip}
+            fuelPlan={fuel.plan}
+            fuelPriced={fuel.priced}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-2xl font-semibold mb-6">
+          Interactive Route Map
+        </h2>
+        <div className="mb-4">
+          <TripTracker
+            source={trackingSource}
+            onSourceChange={setTrackingSource}
+            status={tracking.status}
+            error={tracking.error}
+            fix={tracking.fix}
+            progress={tracking.progress}
+            segments={trip.segments || []}
+            timeZone={trip.home_terminal_timezone}
+          />
+          <div className="mt-3">
+            <ReplanPanel trip={trip} fix={tracking.fix} />
+          </div>
+        </div>
+        <MapComponent
+          segments={trip.segments}
+          routeSummary={trip.route_summary}
+          stops={trip.stops || []}
+          timeZone={trip.home_terminal_timezone}
+          livePosition={trackingSource ? tracking.fix?.coords : undefined}
+          activeSegmentIndex={trackingSource ? activeSegmentIndex : undefined}
+          highlightedSegmentIndex={highlightedSegment}
+          focusSegmentIndex={selectedSegment}
+          onSegmentHover={setHoveredSegment}
+          onSegmentSelect={toggleSegment}
+        />
+        {timeline && (
+          <div className="mt-4">
+            <h3 className="font-semibold mb-2">Schedule Timeline</h3>
+            <ScheduleTimeline
+              timeline={timeline}
+              segments={trip.segments || []}
+              timeZone={trip.home_terminal_timezone}
+              highlightedIndex={highlightedSegment}
+              selectedIndex={selectedSegment}
+              onHover={setHoveredSegment}
+              onSelect={setSelectedSegment}
+            />
+          </div>
+        )}
+        <div className="mt-4 p-3 bg-blue-50 rounded-lg">
+          <p className="text-sm text-blue-800">
+            <strong>Map Features:</strong> Shows your route with pickup
+            and dropoff locations, plus fuel stops and rest breaks
+            required for HOS compliance.
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-2xl font-semibold mb-6">
+          Trip Segments & Schedule
+        </h2>
+        <div className="space-y-3">
+          {trip.segments &&
+            trip.segments.map((segment, index, segments) => {
+              const times = segmentTimes(
+                segments,
+                index,
+                trip.home_terminal_timezone
+              );
+              const segmentViolations = hosViolations.filter(
+                (violation) => violation.segmentIndex === index
+              );
+              const fuelStop = fuel.plan.stops.find(
+                (stop) => stop.segmentIndex === index
+              );
+
+              return (
+                <div
+                  key={index}
+                  className={`flex items-center justify-between p-4 rounded-lg border cursor-pointer ${
+                    segmentViolations.length > 0
+                      ? "bg-red-50 border-red-300"
+                      : "bg-gray-50"
+                  } ${
+                    highlightedSegment === index
+                      ? "ring-2 ring-amber-400"
+                      : trackingSource && activeSegmentIndex === index
+                      ? "ring-2 ring-green-500"
+                      : ""
+                  }`}
+                  aria-current={
+                    trackingSource && activeSegmentIndex === index
+                      ? "step"
+                      : undefined
+                  }
+                  onMouseEnter={() => setHoveredSegment(index)}
+                  onMouseLeave={() => setHoveredSegment(null)}
+                  onClick={() => toggleSegment(index)}
+                >
+                  <div className="flex items-center space-x-4">
+                    <div className="flex items-center justify-center w-8 h-8 bg-gray-200 rounded-full text-sm font-bold">
+                      {segment.sequence_number}
+                    </div>
+                    <div
+                      className={`w-4 h-4 rounded-full ${getSegmentTypeColor(
+                        segment.segment_type
+                      )}`}
+                    />
+                    <div>
+                      <div className="font-medium">
+                        {segment.segment_type_display ||
+                          segment.segment_type}
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {segment.location}
+                      </div>
+                      {times && (
+                        <div className="text-xs text-gray-500">
+                          {times.start} - {times.end}
+                        </div>
+                      )}
+                      {fuelStop && (
+                        <div className="text-xs text-yellow-800">
+                          {describeFuelStop(fuelStop)}
+                        </div>
+                      )}
+                      {segmentViolations.map((violation, i) => (
+                        <div
+                          key={i}
+                          className="text-xs text-red-700 font-medium"
+                        >
+                          {HOS_RULE_LABELS[violation.rule]}:{" "}
+                          {violation.message}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="font-medium">
+                      {segment.duration_hours}h
+                    </div>
+                    {segment.distance_miles > 0 && (
+                      <div className="text-sm text-gray-600">
+                        {segment.distance_miles} mi
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-2xl font-semibold mb-6 flex items-center">
+          <FileText className="mr-2 text-green-600" />
+          Electronic Logging Device (ELD) Daily Logs
+        </h2>
+        <div className="mb-4 p-4 bg-blue-50 rounded-lg">
+          <p className="text-sm text-blue-800">
+            <strong>FMCSA Compliance:</strong> These logs are planned
+            under the {ruleSet.label} rules of the federal Hours of
+            Service regulations (49 CFR Part 395):{" "}
+            {ruleSet.limits.maxDrivingHours}h driving within a{" "}
+            {ruleSet.limits.dutyWindowHours}h window,{" "}
+            {ruleSet.limits.resetHours}h off duty between shifts and{" "}
+            {ruleSet.limits.cycleHours}h on duty in{" "}
+            {ruleSet.limits.cycleDays} days. {ruleSet.description}.
+          </p>
+        </div>
+        {trip.daily_logs &&
+          trip.daily_logs.map((dailyLog, index) => (
+            <DailyLogCard
+              key={index}
+              dailyLog={dailyLog}
+              ruleSet={ruleSet}
+              timeZone={trip.home_terminal_timezone}
+              href={`/trips/${trip.id}/logs/${dailyLog.day_number}`}
+              linkState={{ trip: plannedTrip }}
+              highlight={highlightedDayHours?.get(dailyLog.day_number)}
+            />
+          ))}
+      </div>
+    </div>
+  );
+};
+
+export default TripResultView;
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { Marker, Popup, Polyline, Tooltip } from "react-leaflet";
+import type L from "leaflet";
+import type { PlannedStop, TripSegment } from "../api/types";
+import { createCustomIcon, iconColors } from "../utils/mapIcons";
+import {
+  cumulativeDistances,
+  pointAlongPath,
+  slicePath,
+  type LatLng,
+} from "../utils/routeGeometry";
+import { STOP_TYPE_LABELS } from "../utils/stops";
+import { segmentTimes } from "../utils/time";
+import { segmentRouteSpans } from "../utils/tracking";
+
+interface TripRouteLayerProps {
+  routePoints: LatLng[];
+  segments?: TripSegment[];
+  stops: PlannedStop[];
+  onStopDrag?: (index: number, coords: [number, number]) => void;
+  activeSegmentIndex?: number;
+  /** Segment picked elsewhere, e.g. on the schedule timeline. */
+  highlightedSegmentIndex?: number | null;
+  /** Hovering or clicking a segment on the map, for linked views. */
+  onSegmentHover?: (index: number | null) => void;
+  onSegmentSelect?: (index: number) => void;
+  /** Zone for segment times without one of their own. */
+  timeZone?: string;
+  color?: string;
+  dashed?: boolean;
+  /** Tooltip and click handler for the route line, e.g. on the fleet map. */
+  label?: string;
+  onSelect?: () => void;
+}
+
+// Stop coords are [lng, lat] as returned by the geocoder
+const toLatLng = (stop: PlannedStop): LatLng => [stop.coords[1], stop.coords[0]];
+
+/**
+ * One trip drawn on a Leaflet map: the route, hoverable driving segments,
+ * the planned stops and the fuel and rest stops placed along the road.
+ */
+const TripRouteLayer: React.FC<TripRouteLayerProps> = ({
+  routePoints,
+  segments,
+  stops,
+  onStopDrag,
+  activeSegmentIndex,
+  highlightedSegmentIndex,
+  onSegmentHover,
+  onSegmentSelect,
+  timeZone,
+  color = "#3b82f6",
+  dashed = false,
+  label,
+  onSelect,
+}) => {
+  const [hoveredSegment, setHoveredSegment] = useState<number | null>(null);
+  const highlighted = hoveredSegment ?? highlightedSegmentIndex;
+
+  const hoverSegment = (index: number | null) => {
+    setHoveredSegment(index);
+    onSegmentHover?.(index);
+  };
+
+  const routeDistances = cumulativeDistances(routePoints);
+  const totalSegmentMiles =
+    segments?.reduce((sum, segment) => sum + segment.distance_miles, 0) || 0;
+
+  const segmentSpans = segmentRouteSpans(segments || []);
+
+  // Each driving segment covers a share of the route proportional to its
+  // mileage, so it can be traced along the road rather than as a chord.
+  const drivingPaths =
+    totalSegmentMiles > 0
+      ? (segments || []).flatMap((segment, index) => {
+          if (segment.segment_type !== "driving" || segment.distance_miles <= 0) {
+            return [];
+          }
+          return [
+            {
+              index,
+              segment,
+              path: slicePath(
+                routePoints,
+                segmentSpans[index].start,
+                segmentSpans[index].end,
+                routeDistances
+              ),
+            },
+          ];
+        })
+      : [];
+
+  // Stops happen where the preceding driving ended. Backend coordinates win
+  // when present; otherwise the stop is placed by distance along the route.
+  const getStopPosition = (segment: TripSegment, index: number): LatLng => {
+    if (segment.coords) {
+      return [segment.coords[1], segment.coords[0]];
+    }
+    return pointAlongPath(routePoints, segmentSpans[index].start, routeDistances);
+  };
+
+  return (
+    <>
+      {routePoints.length > 1 && (
+        <Polyline
+          positions={routePoints}
+          color={color}
+          weight={4}
+          opacity={0.7}
+          dashArray={dashed ? "6 8" : undefined}
+          eventHandlers={onSelect && { click: onSelect }}
+        >
+          {label && <Tooltip sticky>{label}</Tooltip>}
+        </Polyline>
+      )}
+
+      {drivingPaths.map(({ index, segment, path }) => (
+        <Polyline
+          key={`driving-${index}`}
+          positions={path}
+          color={
+            highlighted === index
+              ? iconColors.driving
+              : activeSegmentIndex === index
+              ? "#16a34a"
+              : "#1d4ed8"
+          }
+          weight={highlighted === index || activeSegmentIndex === index ? 7 : 4}
+          opacity={
+            highlighted === index || activeSegmentIndex === index ? 0.9 : 0
+          }
+          eventHandlers={{
+            mouseover: () => hoverSegment(index),
+            mouseout: () => hoverSegment(null),
+            click: () => onSegmentSelect?.(index),
+          }}
+        >
+          <Tooltip sticky>
+            <div className="text-sm">
+              <strong>
+                {segment.segment_type_display || segment.segment_type}
+              </strong>{" "}
+              #{segment.sequence_number}
+              <br />
+              {segment.distance_miles} mi · {segment.duration_hours}h
+            </div>
+          </Tooltip>
+        </Polyline>
+      ))}
+
+      {stops.map((stop, index) => (
+        <Marker
+          key={`stop-${index}`}
+          position={toLatLng(stop)}
+          icon={createCustomIcon(iconColors[stop.stop_type])}
+          draggable={!!onStopDrag}
+          eventHandlers={
+            onStopDrag && {
+              dragend: (e) => {
+                const { lat, lng } = (e.target as L.Marker).getLatLng();
+                onStopDrag(index, [lng, lat]);
+              },
+            }
+          }
+        >
+          <Popup>
+            <div className="text-center">
+              <strong>
+                {index > 0 && `Stop ${index} · `}
+                {STOP_TYPE_LABELS[stop.stop_type]}
+              </strong>
+              <br />
+              {stop.name}
+              {stop.dwell_hours ? (
+                <>
+                  <br />
+                  Dwell: {stop.dwell_hours}h
+                </>
+              ) : null}
+            </div>
+          </Popup>
+        </Marker>
+      ))}
+
+      {segments?.map((segment, index) => {
+        if (
+          ["fuel", "rest_break", "sleeper_berth"].includes(segment.segment_type)
+        ) {
+          const coords = getStopPosition(segment, index);
+          const times = segmentTimes(segments, index, timeZone);
+
+          return (
+            <Marker
+              key={index}
+              position={coords}
+              icon={createCustomIcon(
+                iconColors[segment.segment_type as keyof typeof iconColors] ||
+                  iconColors.default,
+                activeSegmentIndex === index || highlighted === index
+              )}
+              zIndexOffset={highlighted === index ? 500 : 0}
+              eventHandlers={{
+                mouseover: () => hoverSegment(index),
+                mouseout: () => hoverSegment(null),
+                click: () => onSegmentSelect?.(index),
+              }}
+            >
+              <Popup>
+                <div className="text-sm">
+                  <strong>
+                    {segment.segment_type_display || segment.segment_type}
+                  </strong>
+                  <br />
+                  Location: {segment.location}
+                  <br />
+                  Duration: {segment.duration_hours}h<br />
+                  {times && (
+                    <>
+                      Time: {times.start} - {times.end}
+                    </>
+                  )}
+                </div>
+              </Popup>
+            </Marker>
+          );
+        }
+        return null;
+      })}
+    </>
+  );
+};
+
+export default TripRouteLayer;
@@ -0,0 +1,169 @@
+import { Navigation, Radio, Square } from "lucide-react";
+import type { TripSegment } from "../api/types";
+import type { FeedStatus, PositionSource } from "../hooks/usePositionFeed";
+import {
+  formatScheduleDelta,
+  type PositionFix,
+  type TrackingProgress,
+} from "../utils/tracking";
+import { segmentTimes } from "../utils/time";
+
+interface TripTrackerProps {
+  source: PositionSource | null;
+  onSourceChange: (source: PositionSource | null) => void;
+  status: FeedStatus;
+  error: string | null;
+  fix: PositionFix | null;
+  progress: TrackingProgress | null;
+  segments: TripSegment[];
+  /** Zone for segment times without one of their own. */
+  timeZone?: string;
+}
+
+// Farther than this from the route, the schedule delta means little
+const OFF_ROUTE_MILES = 5;
+
+const STATUS_LABELS: Record<FeedStatus, string> = {
+  idle: "Not tracking",
+  connecting: "Connecting...",
+  live: "Live",
+  error: "Unavailable",
+};
+
+const deltaColor = (deltaMinutes: number) => {
+  if (Math.abs(deltaMinutes) < 5) return "bg-green-100 text-green-800";
+  return deltaMinutes > 0
+    ? "bg-red-100 text-red-800"
+    : "bg-blue-100 text-blue-800";
+};
+
+/** Controls and read-out for following a trip's progress against its plan. */
+const TripTracker: React.FC<TripTrackerProps> = ({
+  source,
+  onSourceChange,
+  status,
+  error,
+  fix,
+  progress,
+  segments,
+  timeZone,
+}) => {
+  const activeSegment = progress ? segments[progress.segmentIndex] : null;
+  const activeTimes = progress
+    ? segmentTimes(segments, progress.segmentIndex, timeZone)
+    : null;
+  const offRoute = !!progress && progress.offRouteMiles > OFF_ROUTE_MILES;
+
+  return (
+    <div className="p-4 border rounded-lg">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="font-semibold mr-auto flex items-center">
+          <Navigation className="w-4 h-4 mr-2 text-blue-600" aria-hidden="true" />
+          Live Tracking
+          <span
+            className={`ml-3 text-xs font-medium px-2 py-0.5 rounded ${
+              status === "live"
+                ? "bg-green-100 text-green-800"
+                : status === "error"
+                ? "bg-red-100 text-red-800"
+                : "bg-gray-100 text-gray-700"
+            }`}
+          >
+            {STATUS_LABELS[status]}
+          </span>
+        </h3>
+        {source ? (
+          <button
+            type="button"
+            onClick={() => onSourceChange(null)}
+            className="flex items-center px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50"
+          >
+            <Square className="w-4 h-4 mr-1" aria-hidden="true" />
+            Stop tracking
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={() => onSourceChange("device")}
+              className="flex items-center px-3 py-1.5 text-sm font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50"
+            >
+              <Navigation className="w-4 h-4 mr-1" aria-hidden="true" />
+              Track this device
+            </button>
+            <button
+              type="button"
+              onClick={() => onSourceChange("feed")}
+              className="flex items-center px-3 py-1.5 text-sm font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50"
+            >
+              <Radio className="w-4 h-4 mr-1" aria-hidden="true" />
+              Follow live feed
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-700">{error}</p>}
+
+      {source && fix && (
+        <div
+          className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3 text-sm"
+          aria-live="polite"
+        >
+          <div>
+            <div className="text-gray-600">Current segment</div>
+            <div className="font-medium">
+              {activeSegment
+                ? `#${activeSegment.sequence_number} ${
+                    activeSegment.segment_type_display ||
+                    activeSegment.segment_type
+                  }`
+                : "Not on the planned route"}
+            </div>
+            {activeTimes && (
+              <div className="text-xs text-gray-600">
+                Planned {activeTimes.start} - {activeTimes.end}
+              </div>
+            )}
+          </div>
+          <div>
+            <div className="text-gray-600">Schedule</div>
+            {progress && !offRoute ? (
+              <span
+                className={`inline-block mt-0.5 px-2 py-0.5 rounded font-semibold ${deltaColor(
+                  progress.deltaMinutes
+                )}`}
+              >
+                {formatScheduleDelta(progress.deltaMinutes)}
+              </span>
+            ) : (
+              <span className="font-medium">
+                {offRoute
+                  ? `${progress.offRouteMiles.toFixed(1)} mi off route`
+                  : "—"}
+              </span>
+            )}
+            {progress && (
+              <div className="text-xs text-gray-600">
+                {Math.round(progress.fraction * 100)}% of route covered
+              </div>
+            )}
+          </div>
+          <div>
+            <div className="text-gray-600">Last update</div>
+            <div className="font-medium">
+              {new Date(fix.timestamp).toLocaleTimeString()}
+            </div>
+            {fix.speedMph !== undefined && (
+              <div className="text-xs text-gray-600">
+                {Math.round(fix.speedMph)} mph
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TripTracker;
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { idbGet, idbSet } from "../utils/idb";
+import { DEFAULT_COST_SETTINGS, type CostSettings } from "../utils/tripCost";
+
+const SETTINGS_KEY = "cost-settings";
+
+/**
+ * Dispatch's cost rates, remembered between trips. Tolls and detention
+ * belong to one load, so only the rates and margin are stored.
+ */
+export function useCostSettings() {
+  const [settings, setSettings] = useState<CostSettings>(
+    DEFAULT_COST_SETTINGS
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    idbGet<Partial<CostSettings>>(SETTINGS_KEY).then((stored) => {
+      if (!cancelled && stored) {
+        setSettings((current) => ({ ...current, ...stored }));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateSettings = (changes: Partial<CostSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    idbSet(SETTINGS_KEY, {
+      payBasis: next.payBasis,
+      payPerMile: next.payPerMile,
+      payPerHour: next.payPerHour,
+      layoverPerRest: next.layoverPerRest,
+      detentionPerHour: next.detentionPerHour,
+      marginPercent: next.marginPercent,
+    } satisfies Partial<CostSettings>);
+  };
+
+  return [settings, updateSettings] as const;
+}
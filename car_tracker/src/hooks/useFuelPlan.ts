@@ -0,0 +1,76 @@
+import { useEffect, useMemo, useState } from "react";
+import { isAbortError } from "../api/client";
+import { fuelPriceSource } from "../api/fuelPrices";
+import type { TripResult } from "../api/types";
+import { fuelSettingsOf, planFuel } from "../utils/fuelPlan";
+import {
+  cumulativeDistances,
+  pointAlongPath,
+  tripRoutePoints,
+} from "../utils/routeGeometry";
+import { segmentRouteSpans } from "../utils/tracking";
+
+/**
+ * The trip's fuel plan, priced from the configured price source. Until the
+ * prices arrive, or when they can't be had, the plan has gallons only.
+ */
+export function useFuelPlan(trip: TripResult) {
+  // Log edits replace the trip but not its segments, so key on those
+  const { segments, route_summary: routeSummary, stops } = trip;
+  const [prices, setPrices] = useState<{
+    segments: TripResult["segments"];
+    prices: (number | null)[];
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!segments?.some((segment) => segment.segment_type === "fuel")) return;
+
+    const controller = new AbortController();
+    const routePoints = tripRoutePoints(routeSummary, stops || []);
+    const distances = cumulativeDistances(routePoints);
+    const spans = segmentRouteSpans(segments);
+
+    // Backend coordinates first, else where the driving before it ended
+    const lookups = segments.map((segment, index) => {
+      if (segment.segment_type !== "fuel") return null;
+      if (segment.coords) {
+        return fuelPriceSource.priceAt(segment.coords, controller.signal);
+      }
+      if (routePoints.length < 2) return null;
+      const [lat, lng] = pointAlongPath(
+        routePoints,
+        spans[index].start,
+        distances
+      );
+      return fuelPriceSource.priceAt([lng, lat], controller.signal);
+    });
+
+    Promise.all(lookups)
+      .then((found) => {
+        setError(null);
+        setPrices({ segments, prices: found });
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error("Fuel price error:", err);
+        setError(`Could not load fuel prices from ${fuelPriceSource.label}`);
+      });
+
+    return () => controller.abort();
+  }, [segments, routeSummary, stops]);
+
+  const priced = !!prices && prices.segments === segments;
+  const plan = useMemo(
+    () =>
+      planFuel(segments || [], fuelSettingsOf(trip), priced ? prices.prices : []),
+    [segments, trip, priced, prices]
+  );
+
+  return {
+    plan,
+    priced,
+    error,
+    sourceLabel: fuelPriceSource.label,
+  };
+}
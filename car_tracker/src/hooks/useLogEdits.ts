@@ -0,0 +1,77 @@
+import { useEffect, useMemo, useState } from "react";
+import { ApiError, isAbortError } from "../api/client";
+import { createLogEdit, listLogEdits } from "../api/logEdits";
+import type { CreateLogEditRequest, LogEdit, TripResult } from "../api/types";
+import { applyLogEdits } from "../utils/eldLog";
+import { idbGet, idbSet } from "../utils/idb";
+
+const editsKey = (tripId: number) => `log-edits-${tripId}`;
+
+/**
+ * Loads the edit history of a trip's daily logs and returns the trip with
+ * the edits applied. `saveEdit` appends an edit; nothing is ever rewritten.
+ * The history is kept on this device too, so saved trips open offline with
+ * their corrected logs.
+ */
+export function useLogEdits(trip: TripResult | null) {
+  const tripId = trip?.id;
+  const [loaded, setLoaded] = useState<{
+    tripId: number;
+    edits: LogEdit[];
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (tripId === undefined) return;
+
+    const controller = new AbortController();
+
+    listLogEdits(tripId, controller.signal)
+      .then((edits) => {
+        setError(null);
+        setLoaded({ tripId, edits });
+        idbSet(editsKey(tripId), edits);
+      })
+      .catch(async (err) => {
+        if (isAbortError(err)) return;
+        // A trip nobody has edited may have no history resource at all
+        if (err instanceof ApiError && err.status === 404) {
+          setLoaded({ tripId, edits: [] });
+          return;
+        }
+        console.error("Log edit history error:", err);
+
+        if (err instanceof ApiError && err.retryable) {
+          const saved = await idbGet<LogEdit[]>(editsKey(tripId));
+          if (controller.signal.aborted) return;
+          if (saved) {
+            setLoaded({ tripId, edits: saved });
+            return;
+          }
+        }
+        setError("Could not load the log edit history");
+      });
+
+    return () => controller.abort();
+  }, [tripId]);
+
+  const edits = useMemo(
+    () => (loaded && loaded.tripId === tripId ? loaded.edits : []),
+    [loaded, tripId]
+  );
+
+  const editedTrip = useMemo(
+    () => trip && applyLogEdits(trip, edits),
+    [trip, edits]
+  );
+
+  const saveEdit = async (body: CreateLogEditRequest) => {
+    if (tripId === undefined) return;
+    const edit = await createLogEdit(tripId, body);
+    const next = [...edits, edit];
+    setLoaded({ tripId, edits: next });
+    idbSet(editsKey(tripId), next);
+  };
+
+  return { trip: editedTrip, edits, error, saveEdit };
+}
@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from "react";
+
+const subscribe = (listener: () => void) => {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+};
+
+/**
+ * Whether the browser thinks it has a connection. It can report online on a
+ * network that reaches nothing, so API failures still need handling.
+ */
+export function useOnlineStatus() {
+  return useSyncExternalStore(subscribe, () => navigator.onLine);
+}
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { parsePositionEvent, positionFeedUrl } from "../api/tracking";
+import type { PositionFix } from "../utils/tracking";
+
+/** Where positions come from: this device's GPS or the trip's live feed. */
+export type PositionSource = "device" | "feed";
+
+export type FeedStatus = "idle" | "connecting" | "live" | "error";
+
+const METERS_PER_SECOND_TO_MPH = 2.23694;
+
+/**
+ * Streams position fixes for a trip while `source` is set. The device source
+ * uses `watchPosition`; the feed source an EventSource on the trip's
+ * `/positions/` stream, which reconnects by itself after dropouts.
+ */
+export function usePositionFeed(tripId: number, source: PositionSource | null) {
+  const [fix, setFix] = useState<PositionFix | null>(null);
+  const [status, setStatus] = useState<FeedStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!source) {
+      setStatus("idle");
+      return;
+    }
+
+    setFix(null);
+    setError(null);
+    setStatus("connecting");
+
+    if (source === "device") {
+      if (!("geolocation" in navigator)) {
+        setStatus("error");
+        setError("Your browser can't share its location");
+        return;
+      }
+
+      const watchId = navigator.geolocation.watchPosition(
+        (position) => {
+          setStatus("live");
+          setError(null);
+          setFix({
+            coords: [position.coords.latitude, position.coords.longitude],
+            timestamp: position.timestamp,
+            speedMph:
+              position.coords.speed === null
+                ? undefined
+                : position.coords.speed * METERS_PER_SECOND_TO_MPH,
+            accuracyMeters: position.coords.accuracy,
+          });
+        },
+        (err) => {
+          setStatus("error");
+          setError(
+            err.code === err.PERMISSION_DENIED
+              ? "Location access was denied"
+              : "Waiting for a GPS position"
+          );
+        },
+        { enableHighAccuracy: true, maximumAge: 10_000 }
+      );
+
+      return () => navigator.geolocation.clearWatch(watchId);
+    }
+
+    const events = new EventSource(positionFeedUrl(tripId));
+    events.onopen = () => {
+      setStatus("live");
+      setError(null);
+    };
+    events.onmessage = (message) => {
+      const next = parsePositionEvent(message.data);
+      if (next) {
+        setFix(next);
+      } else {
+        console.warn("Ignoring malformed position event:", message.data);
+      }
+    };
+    events.onerror = () => {
+      setStatus(events.readyState === EventSource.CLOSED ? "error" : "connecting");
+      setError("Lost connection to the position feed, retrying...");
+    };
+
+    return () => events.close();
+  }, [tripId, source]);
+
+  return { fix, status, error };
+}
@@ -0,0 +1,43 @@
+import { useSyncExternalStore } from "react";
+import { idbGet, idbSet } from "../utils/idb";
+import {
+  DEFAULT_TILE_SOURCE,
+  TILE_SOURCES,
+  type TileSource,
+  type TileStyleId,
+} from "../utils/mapTiles";
+
+const STYLE_KEY = "tile-style";
+
+let current: TileSource = DEFAULT_TILE_SOURCE;
+const listeners = new Set<() => void>();
+
+const setCurrent = (source: TileSource) => {
+  current = source;
+  listeners.forEach((listener) => listener());
+};
+
+// The last pick wins over the configured default, once it has loaded
+idbGet<TileStyleId>(STYLE_KEY).then((id) => {
+  const stored = TILE_SOURCES.find((source) => source.id === id);
+  if (stored && stored !== current) setCurrent(stored);
+});
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const selectTileSource = (id: TileStyleId) => {
+  const source = TILE_SOURCES.find((item) => item.id === id);
+  if (!source || source === current) return;
+  setCurrent(source);
+  idbSet(STYLE_KEY, id);
+};
+
+/** The tile set every map draws, shared so a switch applies to all of them. */
+export function useTileSource() {
+  return useSyncExternalStore(subscribe, () => current);
+}
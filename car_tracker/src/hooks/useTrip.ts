@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "react-router";
+import { ApiError, isAbortError } from "../api/client";
+import { getTrip } from "../api/trips";
+import type { TripResult } from "../api/types";
+import { getSavedTrip, saveTrip } from "../utils/savedTrips";
+
+/** Router state used to hand a trip we already hold to its page. */
+export interface TripLocationState {
+  trip?: TripResult;
+}
+
+/**
+ * Loads a saved trip by id from `GET /trips/:id/`. When the trip was just
+ * planned or opened from history it arrives in the router state and is used
+ * as is, so nothing is fetched or recomputed.
+ *
+ * Every trip shown is also kept on this device; when the backend can't be
+ * reached that copy is used instead and `savedCopy` is set.
+ */
+export function useTrip(id: string | undefined) {
+  const { state } = useLocation();
+  const passedTrip = (state as TripLocationState | null)?.trip;
+  const hasPassedTrip = !!passedTrip && String(passedTrip.id) === id;
+
+  const [fetchedTrip, setFetchedTrip] = useState<TripResult | null>(null);
+  const [savedCopy, setSavedCopy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (hasPassedTrip) saveTrip(passedTrip);
+  }, [hasPassedTrip, passedTrip]);
+
+  useEffect(() => {
+    if (!id || hasPassedTrip) return;
+
+    const controller = new AbortController();
+
+    const fetchTrip = async () => {
+      try {
+        setError(null);
+        const trip = await getTrip(id, controller.signal);
+        setFetchedTrip(trip);
+        setSavedCopy(false);
+        saveTrip(trip);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error("Trip load error:", err);
+
+        if (err instanceof ApiError && err.retryable) {
+          const saved = await getSavedTrip(id);
+          if (controller.signal.aborted) return;
+          if (saved) {
+            setFetchedTrip(saved);
+            setSavedCopy(true);
+            return;
+          }
+        }
+
+        setError(
+          err instanceof ApiError && err.status === 404
+            ? "Trip not found"
+            : err instanceof Error
+            ? err.message
+            : "Failed to load trip"
+        );
+      }
+    };
+
+    fetchTrip();
+
+    return () => controller.abort();
+  }, [id, hasPassedTrip]);
+
+  const trip = hasPassedTrip
+    ? passedTrip
+    : fetchedTrip && String(fetchedTrip.id) === id
+    ? fetchedTrip
+    : null;
+
+  return {
+    trip,
+    loading: !trip && !error,
+    error,
+    savedCopy: !hasPassedTrip && !!trip && savedCopy,
+  };
+}
@@ -0,0 +1,38 @@
+import { useMemo } from "react";
+import type { TripResult } from "../api/types";
+import { cumulativeDistances, tripRoutePoints } from "../utils/routeGeometry";
+import { segmentRouteSpans, trackProgress } from "../utils/tracking";
+import { usePositionFeed, type PositionSource } from "./usePositionFeed";
+
+/**
+ * Follows a trip's live position from `source` and places every fix on the
+ * plan: the active segment and the delta against its scheduled times.
+ */
+export function useTripTracking(trip: TripResult, source: PositionSource | null) {
+  const { fix, status, error } = usePositionFeed(trip.id, source);
+
+  const route = useMemo(() => {
+    const path = tripRoutePoints(trip.route_summary, trip.stops || []);
+    return {
+      path,
+      distances: cumulativeDistances(path),
+      spans: segmentRouteSpans(trip.segments || []),
+    };
+  }, [trip]);
+
+  const progress = useMemo(
+    () =>
+      fix && route.path.length > 1
+        ? trackProgress(
+            route.path,
+            route.distances,
+            trip.segments || [],
+            route.spans,
+            fix
+          )
+        : null,
+    [fix, route, trip.segments]
+  );
+
+  return { fix, progress, status, error };
+}
@@ -0,0 +1,111 @@
+import { Link, useParams } from "react-router";
+import { ArrowLeft, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import DailyLogEditor from "../components/DailyLogEditor";
+import { useLogEdits } from "../hooks/useLogEdits";
+import { useTrip } from "../hooks/useTrip";
+import { DEFAULT_RULE_SET, HOS_RULE_SETS } from "../utils/hosRules";
+
+const DailyLogPage: React.FC = () => {
+  const { id, day } = useParams();
+  const { trip, loading, error, savedCopy } = useTrip(id);
+  const {
+    trip: editedTrip,
+    edits,
+    error: editsError,
+    saveEdit,
+  } = useLogEdits(trip);
+
+  const dayNumber = Number(day);
+  const dailyLogs = editedTrip?.daily_logs || [];
+  const dailyLog = dailyLogs.find((log) => log.day_number === dayNumber);
+  const hasPrevious = dailyLogs.some((log) => log.day_number === dayNumber - 1);
+  const hasNext = dailyLogs.some((log) => log.day_number === dayNumber + 1);
+
+  return (
+    <div>
+      <Link
+        to={`/trips/${id}`}
+        state={trip ? { trip } : undefined}
+        className="inline-flex items-center mb-4 text-sm text-blue-600 hover:underline"
+      >
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        Back to trip #{id}
+      </Link>
+
+      {loading && (
+        <div className="flex items-center justify-center py-16 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          Loading daily log...
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-100 border border-red-300 text-red-700 rounded-md">
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      {savedCopy && (
+        <div
+          role="status"
+          className="mb-4 p-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-md text-sm"
+        >
+          Can't reach the server; showing the copy saved on this device.
+        </div>
+      )}
+
+      {trip && !dailyLog && (
+        <div className="p-4 bg-yellow-50 border border-yellow-300 text-yellow-800 rounded-md">
+          Trip #{trip.id} has no daily log for day {day}.
+        </div>
+      )}
+
+      {trip && dailyLog && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-semibold">
+              Driver's Daily Log · Trip #{trip.id}
+            </h2>
+            <div className="flex items-center gap-2 text-sm">
+              {hasPrevious && (
+                <Link
+                  to={`/trips/${trip.id}/logs/${dayNumber - 1}`}
+                  state={{ trip }}
+                  className="flex items-center px-3 py-1.5 border rounded-md hover:bg-gray-50"
+                >
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  Day {dayNumber - 1}
+                </Link>
+              )}
+              {hasNext && (
+                <Link
+                  to={`/trips/${trip.id}/logs/${dayNumber + 1}`}
+                  state={{ trip }}
+                  className="flex items-center px-3 py-1.5 border rounded-md hover:bg-gray-50"
+                >
+                  Day {dayNumber + 1}
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </Link>
+              )}
+            </div>
+          </div>
+          {editsError && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-300 text-yellow-800 rounded-md text-sm">
+              {editsError}
+            </div>
+          )}
+          <DailyLogEditor
+            key={dayNumber}
+            dailyLog={dailyLog}
+            ruleSet={HOS_RULE_SETS[trip.hos_rule_set || DEFAULT_RULE_SET]}
+            timeZone={trip.home_terminal_timezone}
+            edits={edits.filter((edit) => edit.day_number === dayNumber)}
+            onSave={saveEdit}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DailyLogPage;
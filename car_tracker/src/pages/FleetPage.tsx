@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router";
+import { Loader2, RefreshCw, Users } from "lucide-react";
+import { isAbortError } from "../api/client";
+import { listFleet } from "../api/fleet";
+import type { FleetVehicle, TripResult } from "../api/types";
+import type { TripLocationState } from "../hooks/useTrip";
+import FleetMap from "../components/FleetMap";
+import { formatHours } from "../utils/eldLog";
+import { hosClockAt, type HosClock } from "../utils/hosRules";
+import { routeColor } from "../utils/mapIcons";
+import { describeRoute } from "../utils/stops";
+
+type ActiveVehicle = FleetVehicle & { active_trip: TripResult };
+
+// The clocks move with the plan, so re-read them every minute
+const CLOCK_INTERVAL_MS = 60_000;
+
+// Under this many hours a remaining clock is shown as a warning
+const LOW_HOURS = 1;
+
+const Hours: React.FC<{ hours: number }> = ({ hours }) => (
+  <span className={hours < LOW_HOURS ? "font-medium text-red-700" : undefined}>
+    {formatHours(hours)}
+  </span>
+);
+
+const describeBreak = (clock: HosClock) => {
+  const planned = clock.nextRest
+    ? `${
+        clock.nextRest.segment_type_display || clock.nextRest.segment_type
+      } at ${clock.nextRest.location}`
+    : null;
+
+  if (clock.breakDueIn === null) return planned ?? "Not required";
+  const due =
+    clock.breakDueIn <= 0
+      ? "Due now"
+      : `After ${formatHours(clock.breakDueIn)} driving`;
+  return planned ? `${due} · ${planned}` : due;
+};
+
+/**
+ * Dispatch view of every truck: its driver, active trip and where the plan
+ * leaves the driver's hours-of-service clocks right now. Loads
+ * `GET /fleet/`; selecting a row or route opens the trip.
+ */
+const FleetPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [vehicles, setVehicles] = useState<FleetVehicle[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchFleet = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setVehicles(await listFleet(controller.signal));
+        setNow(Date.now());
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error("Fleet load error:", err);
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to load fleet";
+        setError(`Could not load the fleet: ${errorMessage}`);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchFleet();
+
+    return () => controller.abort();
+  }, [reloadKey]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const activeVehicles = useMemo(
+    () =>
+      (vehicles || []).filter(
+        (vehicle): vehicle is ActiveVehicle => !!vehicle.active_trip
+      ),
+    [vehicles]
+  );
+
+  const openTrip = (vehicle: FleetVehicle) => {
+    if (!vehicle.active_trip) return;
+    const state: TripLocationState = { trip: vehicle.active_trip };
+    navigate(`/trips/${vehicle.active_trip.id}`, { state });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center mb-4">
+        <h2 className="text-2xl font-semibold flex items-center mr-auto">
+          <Users className="mr-2 text-blue-600" aria-hidden="true" />
+          Fleet
+        </h2>
+        <button
+          type="button"
+          onClick={() => setReloadKey((key) => key + 1)}
+          disabled={loading}
+          className="flex items-center px-3 py-1.5 text-sm font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 disabled:opacity-50"
+        >
+          <RefreshCw
+            className={`w-4 h-4 mr-1 ${loading ? "animate-spin" : ""}`}
+            aria-hidden="true"
+          />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div
+          role="alert"
+          className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded-md text-sm"
+        >
+          {error}
+        </div>
+      )}
+
+      {loading && !vehicles && (
+        <div className="flex items-center justify-center py-16 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" aria-hidden="true" />
+          Loading fleet...
+        </div>
+      )}
+
+      {vehicles && (
+        <>
+          <div className="mb-6">
+            <FleetMap vehicles={activeVehicles} now={now} onSelect={openTrip} />
+          </div>
+
+          {vehicles.length === 0 ? (
+            <p className="text-gray-600">No trucks in the fleet yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-3 font-medium">Truck</th>
+                    <th className="py-2 pr-3 font-medium">Driver</th>
+                    <th className="py-2 pr-3 font-medium">Active trip</th>
+                    <th className="py-2 pr-3 font-medium">Drive left</th>
+                    <th className="py-2 pr-3 font-medium">Cycle left</th>
+                    <th className="py-2 font-medium">Next break</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {vehicles.map((vehicle) => {
+                    const trip = vehicle.active_trip;
+                    const clock = trip ? hosClockAt(trip, now) : null;
+                    const routeIndex = activeVehicles.indexOf(
+                      vehicle as ActiveVehicle
+                    );
+
+                    return (
+                      <tr
+                        key={vehicle.truck.id}
+                        onClick={() => openTrip(vehicle)}
+                        className={`border-b last:border-0 ${
+                          trip ? "cursor-pointer hover:bg-gray-50" : ""
+                        }`}
+                      >
+                        <td className="py-2 pr-3 font-medium whitespace-nowrap">
+                          {trip && (
+                            <span
+                              className="inline-block w-3 h-3 rounded-full mr-2 align-middle"
+                              style={{
+                                backgroundColor: routeColor(routeIndex),
+                              }}
+                              aria-hidden="true"
+                            />
+                          )}
+                          {vehicle.truck.unit_number}
+                        </td>
+                        <td className="py-2 pr-3">
+                          {vehicle.driver?.name ?? (
+                            <span className="text-gray-500">Unassigned</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-3">
+                          {trip ? (
+                            <Link
+                              to={`/trips/${trip.id}`}
+                              state={{ trip } satisfies TripLocationState}
+                              onClick={(e) => e.stopPropagation()}
+                              className="text-blue-600 hover:underline"
+                            >
+                              #{trip.id} · {describeRoute(trip)}
+                            </Link>
+                          ) : (
+                            <span className="text-gray-500">
+                              No active trip
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-3">
+                          {clock ? (
+                            <Hours
+                              hours={Math.min(
+                                clock.drivingRemaining,
+                                clock.windowRemaining
+                              )}
+                            />
+                          ) : (
+                            "—"
+                          )}
+                        </td>
+                        <td className="py-2 pr-3">
+                          {clock ? <Hours hours={clock.cycleRemaining} /> : "—"}
+                        </td>
+                        <td className="py-2">
+                          {clock ? describeBreak(clock) : "—"}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FleetPage;
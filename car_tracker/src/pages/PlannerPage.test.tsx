@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { MemoryRouter } from "react-router";
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import type { PlannerDraft } from "../App";
+import { axe } from "../test/axe";
+import { DEFAULT_FUEL_SETTINGS } from "../utils/fuelPlan";
+import { DEFAULT_RULE_SET } from "../utils/hosRules";
+import { createStopDraft } from "../utils/stops";
+import PlannerPage from "./PlannerPage";
+
+vi.mock("../api/geocode", () => ({
+  geocodeAutocomplete: vi.fn(),
+  reverseGeocode: vi.fn(),
+  coordinateLocation: vi.fn(),
+}));
+vi.mock("../api/drivers", () => ({
+  listDrivers: vi.fn().mockResolvedValue([]),
+  getDriver: vi.fn(),
+}));
+
+const Harness: React.FC = () => {
+  const [draft, setDraft] = useState<PlannerDraft>({
+    currentLocation: null,
+    stops: [createStopDraft("pickup"), createStopDraft("dropoff")],
+    driver: null,
+    currentCycleUsed: 0,
+    drivingHoursLeft: null,
+    ruleSetId: DEFAULT_RULE_SET,
+    departureTime: "",
+    terminalTimeZone: "America/Chicago",
+    fuel: DEFAULT_FUEL_SETTINGS,
+  });
+  return (
+    <MemoryRouter>
+      <PlannerPage draft={draft} onDraftChange={setDraft} />
+    </MemoryRouter>
+  );
+};
+
+describe("PlannerPage", () => {
+  it("labels the trip form's fields", async () => {
+    render(<Harness />);
+
+    expect(screen.getByRole("form", { name: "Enter Trip Details" })).toBeTruthy();
+    expect(
+      screen.getByRole("combobox", { name: /Current Location/ })
+    ).toBeTruthy();
+    expect(
+      screen.getByRole("group", { name: "Stops (in route order)" })
+    ).toBeTruthy();
+    for (const name of [
+      "Departure",
+      "Home Terminal Time Zone",
+      "HOS Rule Set",
+      "Hours Used This Cycle (Optional)",
+      "Driving Hours Left This Shift (Optional)",
+      "Tank capacity (gal)",
+      "Average MPG",
+      "Fuel at departure (%)",
+    ]) {
+      expect(screen.getByLabelText(name)).toBeTruthy();
+    }
+
+    // Wait for the driver list so the select has settled
+    await screen.findByRole("option", { name: "No driver selected" });
+    expect(await axe(document.body)).toHaveNoViolations();
+  });
+
+  it("explains the hours fields", () => {
+    render(<Harness />);
+
+    const cycle = screen.getByLabelText("Hours Used This Cycle (Optional)");
+    const help = document.getElementById(
+      cycle.getAttribute("aria-describedby") ?? ""
+    );
+    expect(help?.textContent).toContain("Of 70h in 8 days");
+  });
+
+  it("disables submitting until the stops are complete", () => {
+    render(<Harness />);
+
+    const submit = screen.getByRole("button", {
+      name: "Generate Route & ELD Logs",
+    }) as HTMLButtonElement;
+    expect(submit.disabled).toBe(true);
+  });
+});
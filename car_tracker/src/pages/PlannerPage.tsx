@@ -0,0 +1,577 @@
+import { useState, type Dispatch, type SetStateAction } from "react";
+import { useNavigate } from "react-router";
+import { CalendarClock, Clock, FileText, Fuel, Globe } from "lucide-react";
+import type { PlannerDraft } from "../App";
+import { ApiError } from "../api/client";
+import { createTrip } from "../api/trips";
+import type {
+  CreateTripRequest,
+  DriverProfile,
+  FuelSettings,
+  HosRuleSetId,
+  Location,
+} from "../api/types";
+import DriverSelect from "../components/DriverSelect";
+import LocationPickerMap from "../components/LocationPickerMap";
+import LocationSelect from "../components/LocationSelect";
+import StopList from "../components/StopList";
+import type { TripLocationState } from "../hooks/useTrip";
+import { STOP_TYPE_LABELS, toPlannedStops, validateStops } from "../utils/stops";
+import { HOS_RULE_SETS, hosClockFromLogs } from "../utils/hosRules";
+import { completeTrip, queueTrip } from "../utils/tripOutbox";
+import {
+  TERMINAL_TIME_ZONES,
+  toZonedInput,
+  zonedTimeToEpoch,
+} from "../utils/time";
+
+// Epoch ms of the departure, or now when none is set
+const departureEpoch = ({ departureTime, terminalTimeZone }: PlannerDraft) =>
+  departureTime ? zonedTimeToEpoch(departureTime, terminalTimeZone) : Date.now();
+
+/**
+ * The hours fields worked out from the driver's logs as of departure,
+ * rounded to the quarter hour on the cautious side. Unchanged without a
+ * driver or when the logs are undated.
+ */
+const hoursFromDriver = (draft: PlannerDraft): Partial<PlannerDraft> => {
+  if (!draft.driver) return {};
+  const clock = hosClockFromLogs(
+    draft.driver.recent_logs,
+    departureEpoch(draft),
+    HOS_RULE_SETS[draft.ruleSetId].limits,
+    draft.terminalTimeZone
+  );
+  if (!clock) return {};
+
+  return {
+    currentCycleUsed: Math.ceil(clock.cycleUsed * 4) / 4,
+    drivingHoursLeft:
+      Math.floor(Math.min(clock.drivingRemaining, clock.windowRemaining) * 4) /
+      4,
+  };
+};
+
+interface PlannerPageProps {
+  draft: PlannerDraft;
+  onDraftChange: Dispatch<SetStateAction<PlannerDraft>>;
+}
+
+const PlannerPage: React.FC<PlannerPageProps> = ({ draft, onDraftChange }) => {
+  const navigate = useNavigate();
+  const {
+    currentLocation,
+    stops,
+    driver,
+    currentCycleUsed,
+    drivingHoursLeft,
+    ruleSetId,
+    departureTime,
+    terminalTimeZone,
+    fuel,
+  } = draft;
+
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+  const [queuedNotice, setQueuedNotice] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({});
+
+  const formRuleSet = HOS_RULE_SETS[ruleSetId];
+
+  const updateDraft = (changes: Partial<PlannerDraft>) => {
+    // Functional so async updates (map picks) don't overwrite newer edits
+    onDraftChange((prev) => ({ ...prev, ...changes }));
+  };
+
+  const updateFuel = (changes: Partial<FuelSettings>) => {
+    onDraftChange((prev) => ({ ...prev, fuel: { ...prev.fuel, ...changes } }));
+  };
+
+  const updateStopLocation = (stopId: string, location: Location) => {
+    onDraftChange((prev) => ({
+      ...prev,
+      stops: prev.stops.map((stop) =>
+        stop.id === stopId ? { ...stop, location } : stop
+      ),
+    }));
+  };
+
+  // For changes the driver's hours depend on: the cycle length of the rule
+  // set, the terminal's midnight and the time they are counted at
+  const updateDraftAndHours = (changes: Partial<PlannerDraft>) => {
+    onDraftChange((prev) => {
+      const next = { ...prev, ...changes };
+      return { ...next, ...hoursFromDriver(next) };
+    });
+  };
+
+  const handleDriverChange = (next: DriverProfile | null) => {
+    updateDraftAndHours({
+      driver: next,
+      ...(next?.hos_rule_set && { ruleSetId: next.hos_rule_set }),
+      ...(next?.home_terminal_timezone && {
+        terminalTimeZone: next.home_terminal_timezone,
+      }),
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!currentLocation) {
+      setError("Please select your current location");
+      return;
+    }
+
+    const stopsError = validateStops(stops);
+    if (stopsError) {
+      setError(stopsError);
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    setQueuedNotice(false);
+    setFieldErrors({});
+
+    const plannedStops = toPlannedStops(currentLocation, stops);
+    let requestPayload: CreateTripRequest | undefined;
+
+    try {
+      const [start, ...routeStops] = plannedStops;
+      // pickup_location/dropoff_location mirror the first pickup and last
+      // dropoff for backends that only understand single-stop trips.
+      const firstPickup = routeStops.find((stop) => stop.stop_type === "pickup");
+      const lastDropoff = [...routeStops]
+        .reverse()
+        .find((stop) => stop.stop_type === "dropoff");
+
+      requestPayload = {
+        current_location: { name: start.name, coords: start.coords },
+        pickup_location: firstPickup && {
+          name: firstPickup.name,
+          coords: firstPickup.coords,
+        },
+        dropoff_location: lastDropoff && {
+          name: lastDropoff.name,
+          coords: lastDropoff.coords,
+        },
+        stops: routeStops,
+        current_cycle_used: currentCycleUsed,
+        hos_rule_set: ruleSetId,
+        home_terminal_timezone: terminalTimeZone,
+        start_time: new Date(departureEpoch(draft)).toISOString(),
+        driver_id: driver?.id,
+        remaining_driving_hours: drivingHoursLeft ?? undefined,
+        ...fuel,
+      };
+
+      console.log("Sending request with coordinates:", requestPayload);
+
+      const result = await createTrip(requestPayload);
+      const trip = completeTrip(result, requestPayload, plannedStops);
+
+      console.log("Trip created successfully:", result);
+
+      const state: TripLocationState = { trip };
+      navigate(`/trips/${trip.id}`, { state });
+    } catch (err) {
+      // The request never reached the backend, so it is safe to send later.
+      // A network error with a status dropped after the response started.
+      if (
+        err instanceof ApiError &&
+        err.kind === "network" &&
+        err.status === undefined &&
+        requestPayload &&
+        (await queueTrip(requestPayload, plannedStops))
+      ) {
+        setQueuedNotice(true);
+        return;
+      }
+
+      const errorMessage =
+        err instanceof Error ? err.message : "An unknown error occurred";
+      setError(errorMessage);
+      if (err instanceof ApiError) setFieldErrors(err.fieldErrors);
+      console.error("API Error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isFormValid = currentLocation && !validateStops(stops);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <h2 id="planner-heading" className="text-xl font-semibold mb-4">
+        Enter Trip Details
+      </h2>
+      <form
+        className="grid grid-cols-1 md:grid-cols-2 gap-6"
+        aria-labelledby="planner-heading"
+        noValidate
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSubmit();
+        }}
+      >
+        <LocationSelect
+          label="Current Location"
+          value={currentLocation}
+          onChange={(location) => updateDraft({ currentLocation: location })}
+          placeholder="Search for your current city..."
+          required
+          showCurrentPosition
+        />
+
+        <fieldset className="md:col-span-2">
+          <legend className="text-sm font-medium text-gray-700 mb-2">
+            Stops (in route order)
+          </legend>
+          <StopList
+            stops={stops}
+            onChange={(stops) => updateDraft({ stops })}
+          />
+        </fieldset>
+
+        <div className="md:col-span-2">
+          <LocationPickerMap
+            currentLocation={currentLocation}
+            stops={stops}
+            onCurrentLocationChange={(location) =>
+              updateDraft({ currentLocation: location })
+            }
+            onStopLocationChange={updateStopLocation}
+          />
+        </div>
+
+        <div>
+          <label
+            htmlFor="departure-time"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            <CalendarClock
+              className="inline-block w-4 h-4 mr-1"
+              aria-hidden="true"
+            />
+            Departure
+          </label>
+          <input
+            id="departure-time"
+            aria-describedby="departure-time-help"
+            type="datetime-local"
+            value={departureTime}
+            min={toZonedInput(Date.now(), terminalTimeZone)}
+            onChange={(e) =>
+              updateDraftAndHours({ departureTime: e.target.value })
+            }
+            className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+          />
+          <div id="departure-time-help" className="text-xs text-gray-600 mt-1">
+            In home terminal time. Leave empty to leave now.
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="terminal-time-zone"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            <Globe className="inline-block w-4 h-4 mr-1" aria-hidden="true" />
+            Home Terminal Time Zone
+          </label>
+          <select
+            id="terminal-time-zone"
+            aria-describedby="terminal-time-zone-help"
+            value={terminalTimeZone}
+            onChange={(e) =>
+              updateDraftAndHours({ terminalTimeZone: e.target.value })
+            }
+            className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors bg-white"
+          >
+            {!TERMINAL_TIME_ZONES.some((zone) => zone.id === terminalTimeZone) && (
+              <option value={terminalTimeZone}>{terminalTimeZone}</option>
+            )}
+            {TERMINAL_TIME_ZONES.map((zone) => (
+              <option key={zone.id} value={zone.id}>
+                {zone.label} ({zone.id})
+              </option>
+            ))}
+          </select>
+          <div
+            id="terminal-time-zone-help"
+            className="text-xs text-gray-600 mt-1"
+          >
+            Daily logs run midnight to midnight in this zone.
+          </div>
+        </div>
+
+        <div className="md:col-span-2">
+          <DriverSelect value={driver} onChange={handleDriverChange} />
+        </div>
+
+        <div>
+          <label
+            htmlFor="hos-rule-set"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            <FileText className="inline-block w-4 h-4 mr-1" aria-hidden="true" />
+            HOS Rule Set
+          </label>
+          <select
+            id="hos-rule-set"
+            aria-describedby="hos-rule-set-help"
+            value={ruleSetId}
+            onChange={(e) =>
+              updateDraftAndHours({
+                ruleSetId: e.target.value as HosRuleSetId,
+              })
+            }
+            className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors bg-white"
+          >
+            {Object.values(HOS_RULE_SETS).map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <div id="hos-rule-set-help" className="text-xs text-gray-600 mt-1">
+            {formRuleSet.description}
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="current-cycle-used"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            <Clock className="inline-block w-4 h-4 mr-1" aria-hidden="true" />
+            Hours Used This Cycle (Optional)
+          </label>
+          <input
+            id="current-cycle-used"
+            aria-describedby="current-cycle-used-help"
+            type="number"
+            value={currentCycleUsed}
+            onChange={(e) =>
+              updateDraft({
+                currentCycleUsed: parseFloat(e.target.value) || 0,
+              })
+            }
+            min="0"
+            max={formRuleSet.limits.cycleHours}
+            step="0.25"
+            className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            placeholder="0 (if unknown or starting fresh)"
+          />
+          <div
+            id="current-cycle-used-help"
+            className="text-xs text-gray-600 mt-1"
+          >
+            Of {formRuleSet.limits.cycleHours}h in{" "}
+            {formRuleSet.limits.cycleDays} days.{" "}
+            {driver
+              ? `Worked out from ${driver.name}'s logs.`
+              : "Pick a driver to work this out from their logs, or leave as 0 if unsure - the system will plan conservatively."}
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="driving-hours-left"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            <Clock className="inline-block w-4 h-4 mr-1" aria-hidden="true" />
+            Driving Hours Left This Shift (Optional)
+          </label>
+          <input
+            id="driving-hours-left"
+            aria-describedby="driving-hours-left-help"
+            type="number"
+            value={drivingHoursLeft ?? ""}
+            onChange={(e) =>
+              updateDraft({
+                drivingHoursLeft:
+                  e.target.value === "" ? null : parseFloat(e.target.value) || 0,
+              })
+            }
+            min="0"
+            max={formRuleSet.limits.maxDrivingHours}
+            step="0.25"
+            className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            placeholder={`${formRuleSet.limits.maxDrivingHours} (fresh shift)`}
+          />
+          <div
+            id="driving-hours-left-help"
+            className="text-xs text-gray-600 mt-1"
+          >
+            {driver
+              ? `Worked out from ${driver.name}'s logs, within the ${formRuleSet.limits.dutyWindowHours}-hour window.`
+              : "Leave empty when starting after a full reset."}
+          </div>
+        </div>
+
+        <fieldset className="md:col-span-2 grid grid-cols-1 md:grid-cols-3 gap-6">
+          <legend className="text-sm font-medium text-gray-700 mb-2">
+            <Fuel className="inline-block w-4 h-4 mr-1" aria-hidden="true" />
+            Fuel
+          </legend>
+          <div>
+            <label
+              htmlFor="tank-capacity"
+              className="block text-sm text-gray-700 mb-2"
+            >
+              Tank capacity (gal)
+            </label>
+            <input
+              id="tank-capacity"
+              type="number"
+              value={fuel.tank_capacity_gallons}
+              onChange={(e) =>
+                updateFuel({
+                  tank_capacity_gallons: parseFloat(e.target.value) || 0,
+                })
+              }
+              min="1"
+              step="1"
+              className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="average-mpg"
+              className="block text-sm text-gray-700 mb-2"
+            >
+              Average MPG
+            </label>
+            <input
+              id="average-mpg"
+              type="number"
+              value={fuel.average_mpg}
+              onChange={(e) =>
+                updateFuel({ average_mpg: parseFloat(e.target.value) || 0 })
+              }
+              min="1"
+              step="0.1"
+              className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="starting-fuel"
+              className="block text-sm text-gray-700 mb-2"
+            >
+              Fuel at departure (%)
+            </label>
+            <input
+              id="starting-fuel"
+              type="number"
+              value={Math.round(fuel.starting_fuel_level * 100)}
+              onChange={(e) =>
+                updateFuel({
+                  starting_fuel_level:
+                    Math.min(
+                      Math.max(parseFloat(e.target.value) || 0, 0),
+                      100
+                    ) / 100,
+                })
+              }
+              min="0"
+              max="100"
+              step="5"
+              className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            />
+          </div>
+        </fieldset>
+
+        <div className="md:col-span-2">
+          <button
+            type="submit"
+            disabled={loading || !isFormValid}
+            aria-busy={loading}
+            aria-describedby={error ? "planner-error" : undefined}
+            className="w-full bg-blue-600 text-white py-3 px-6 rounded-md hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+          >
+            {loading ? (
+              <span className="flex items-center justify-center">
+                <svg
+                  className="animate-spin -ml-1 mr-3 h-5 w-5 text-white"
+                  aria-hidden="true"
+                  xmlns="http://www.w3.org/2000/svg"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                >
+                  <circle
+                    className="opacity-25"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                  ></circle>
+                  <path
+                    className="opacity-75"
+                    fill="currentColor"
+                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                  ></path>
+                </svg>
+                Calculating Route & ELD Logs...
+              </span>
+            ) : (
+              "Generate Route & ELD Logs"
+            )}
+          </button>
+        </div>
+      </form>
+
+      {(currentLocation || stops.some((stop) => stop.location)) && (
+        <div className="mt-4 p-3 bg-gray-50 rounded text-xs text-gray-600">
+          <strong>Selected Coordinates:</strong>
+          <div>
+            Current: {currentLocation?.name}{" "}
+            {currentLocation?.coords &&
+              `(${currentLocation.coords[1]}, ${currentLocation.coords[0]})`}
+          </div>
+          {stops.map((stop, index) => (
+            <div key={stop.id}>
+              Stop {index + 1} ({STOP_TYPE_LABELS[stop.stop_type]}):{" "}
+              {stop.location?.name}{" "}
+              {stop.location?.coords &&
+                `(${stop.location.coords[1]}, ${stop.location.coords[0]})`}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {queuedNotice && (
+        <div
+          role="status"
+          className="mt-4 p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-md"
+        >
+          You're offline, so the trip was queued. It will be planned when the
+          connection returns and listed at the top of the page.
+        </div>
+      )}
+
+      {error && (
+        <div
+          id="planner-error"
+          role="alert"
+          className="mt-4 p-4 bg-red-100 border border-red-300 text-red-700 rounded-md"
+        >
+          <strong>Error:</strong> {error}
+          {Object.keys(fieldErrors).length > 0 && (
+            <ul className="mt-2 text-sm list-disc list-inside">
+              {Object.entries(fieldErrors).map(([field, messages]) => (
+                <li key={field}>
+                  <span className="font-mono">{field}</span>:{" "}
+                  {messages.join(" ")}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlannerPage;
@@ -0,0 +1,52 @@
+import { Link, useParams } from "react-router";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import TripResultView from "../components/TripResultView";
+import { useLogEdits } from "../hooks/useLogEdits";
+import { useTrip } from "../hooks/useTrip";
+
+const TripPage: React.FC = () => {
+  const { id } = useParams();
+  const { trip: loadedTrip, loading, error, savedCopy } = useTrip(id);
+  // Show the daily logs as corrected on the log pages
+  const { trip } = useLogEdits(loadedTrip);
+
+  return (
+    <div>
+      <Link
+        to="/"
+        className="inline-flex items-center mb-4 text-sm text-blue-600 hover:underline"
+      >
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        Plan another trip
+      </Link>
+
+      {loading && (
+        <div className="flex items-center justify-center py-16 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          Loading trip #{id}...
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-100 border border-red-300 text-red-700 rounded-md">
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      {savedCopy && (
+        <div
+          role="status"
+          className="mb-4 p-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-md text-sm"
+        >
+          Can't reach the server; showing the copy saved on this device.
+        </div>
+      )}
+
+      {trip && loadedTrip && (
+        <TripResultView key={trip.id} trip={trip} plannedTrip={loadedTrip} />
+      )}
+    </div>
+  );
+};
+
+export default TripPage;
@@ -0,0 +1,12 @@
+import { configureAxe } from "vitest-axe";
+
+/**
+ * axe for components rendered on their own in jsdom. Contrast needs layout
+ * jsdom doesn't do, and a lone component has no page landmarks around it.
+ */
+export const axe = configureAxe({
+  rules: {
+    "color-contrast": { enabled: false },
+    region: { enabled: false },
+  },
+});
@@ -0,0 +1,16 @@
+import { cleanup } from "@testing-library/react";
+import { afterEach, expect } from "vitest";
+import * as axeMatchers from "vitest-axe/matchers";
+
+expect.extend(axeMatchers);
+
+afterEach(() => {
+  cleanup();
+});
+
+// Headless UI measures its popovers with ResizeObserver, which jsdom lacks
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
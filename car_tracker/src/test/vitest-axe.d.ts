@@ -0,0 +1,11 @@
+import "vitest";
+
+// vitest-axe only types its matcher for the old global `Vi` namespace
+declare module "vitest" {
+  // A merged declaration has to repeat vitest's type parameter, unused here
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface Matchers<T> {
+    /** Passes when the axe results list no violations. */
+    toHaveNoViolations(): void;
+  }
+}
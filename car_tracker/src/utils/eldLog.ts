@@ -0,0 +1,209 @@
+import type { DailyLog, LogEdit, LogEntry, TripResult } from "../api/types";
+
+export type DutyStatus =
+  | "off_duty"
+  | "sleeper_berth"
+  | "driving"
+  | "on_duty_not_driving";
+
+/** The four rows of the driver's daily log, in the order they are printed. */
+export const DUTY_STATUS_ROWS: { status: DutyStatus; label: string }[] = [
+  { status: "off_duty", label: "Off Duty" },
+  { status: "sleeper_berth", label: "Sleeper Berth" },
+  { status: "driving", label: "Driving" },
+  { status: "on_duty_not_driving", label: "On Duty (Not Driving)" },
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (hour: number) =>
+  Math.max(0, Math.min(MINUTES_PER_DAY, Math.round(hour * 60)));
+
+const isDutyStatus = (status: string): status is DutyStatus =>
+  DUTY_STATUS_ROWS.some((row) => row.status === status);
+
+/**
+ * Turns the backend's entries into a gap-free, non-overlapping sequence that
+ * covers the whole 24-hour day at minute precision. Unaccounted time is off
+ * duty, and when two entries overlap the later one starts where the earlier
+ * one ends, so every minute is in exactly one status.
+ */
+export const normalizeLogEntries = (entries: LogEntry[] = []): LogEntry[] => {
+  const sorted = [...entries]
+    .filter((entry) => entry.end_hour > entry.start_hour)
+    .sort((a, b) => a.start_hour - b.start_hour);
+
+  const normalized: LogEntry[] = [];
+  let cursor = 0;
+
+  const push = (entry: LogEntry, start: number, end: number) => {
+    const previous = normalized[normalized.length - 1];
+    if (
+      previous &&
+      previous.duty_status === entry.duty_status &&
+      (!entry.location || previous.location === entry.location)
+    ) {
+      previous.end_hour = end / 60;
+      return;
+    }
+    normalized.push({ ...entry, start_hour: start / 60, end_hour: end / 60 });
+  };
+
+  for (const entry of sorted) {
+    const start = Math.max(cursor, toMinutes(entry.start_hour));
+    const end = toMinutes(entry.end_hour);
+    if (end <= start) continue;
+
+    if (start > cursor) {
+      push(
+        { duty_status: "off_duty", start_hour: 0, end_hour: 0, location: "" },
+        cursor,
+        start
+      );
+    }
+
+    const status = isDutyStatus(entry.duty_status)
+      ? entry.duty_status
+      : "on_duty_not_driving";
+    push({ ...entry, duty_status: status }, start, end);
+    cursor = end;
+  }
+
+  if (cursor < MINUTES_PER_DAY) {
+    push(
+      { duty_status: "off_duty", start_hour: 0, end_hour: 0, location: "" },
+      cursor,
+      MINUTES_PER_DAY
+    );
+  }
+
+  return normalized;
+};
+
+/** Hours per duty status for normalized entries; always sums to 24. */
+export const computeDutyTotals = (
+  entries: LogEntry[]
+): Record<DutyStatus, number> => {
+  const minutes: Record<DutyStatus, number> = {
+    off_duty: 0,
+    sleeper_berth: 0,
+    driving: 0,
+    on_duty_not_driving: 0,
+  };
+
+  for (const entry of entries) {
+    if (isDutyStatus(entry.duty_status)) {
+      minutes[entry.duty_status] += toMinutes(entry.end_hour) - toMinutes(entry.start_hour);
+    }
+  }
+
+  return {
+    off_duty: minutes.off_duty / 60,
+    sleeper_berth: minutes.sleeper_berth / 60,
+    driving: minutes.driving / 60,
+    on_duty_not_driving: minutes.on_duty_not_driving / 60,
+  };
+};
+
+/** Formats fractional hours as HH:MM, e.g. 7.25 -> "07:15". */
+export const formatHours = (hours: number): string => {
+  const totalMinutes = Math.round(hours * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return `${h.toString().padStart(2, "0")}:${m.toString().padStart(2, "0")}`;
+};
+
+// Edits snap to the quarter hour, the finest tick on the graph
+const EDIT_STEP_HOURS = 0.25;
+
+const snapHour = (hour: number) =>
+  Math.round(hour / EDIT_STEP_HOURS) * EDIT_STEP_HOURS;
+
+/**
+ * Moves the change of duty status at the start of `entries[index]` to `hour`,
+ * within the spans on either side. A span dragged down to nothing is dropped.
+ */
+export const moveTransition = (
+  entries: LogEntry[],
+  index: number,
+  hour: number
+): LogEntry[] => {
+  const previous = entries[index - 1];
+  const next = entries[index];
+  if (!previous || !next) return entries;
+
+  const at = Math.max(
+    previous.start_hour,
+    Math.min(next.end_hour, snapHour(hour))
+  );
+  return normalizeLogEntries(
+    entries.map((entry, i) =>
+      i === index - 1
+        ? { ...entry, end_hour: at }
+        : i === index
+        ? { ...entry, start_hour: at }
+        : entry
+    )
+  );
+};
+
+/** Changes the duty status of one span, merging it into equal neighbours. */
+export const changeEntryStatus = (
+  entries: LogEntry[],
+  index: number,
+  status: DutyStatus
+): LogEntry[] =>
+  normalizeLogEntries(
+    entries.map((entry, i) =>
+      i === index
+        ? { ...entry, duty_status: status, duty_status_display: undefined }
+        : entry
+    )
+  );
+
+// The card prints totals as decimal hours, e.g. 2.33h rather than 2.3333333h
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+/** The log with new entries and its per-status totals counted from them. */
+export const withDutyTotals = (
+  dailyLog: DailyLog,
+  entries: LogEntry[]
+): DailyLog => {
+  const totals = computeDutyTotals(entries);
+  return {
+    ...dailyLog,
+    entries,
+    off_duty_hours: roundHours(totals.off_duty),
+    sleeper_berth_hours: roundHours(totals.sleeper_berth),
+    driving_hours: roundHours(totals.driving),
+    on_duty_hours: roundHours(totals.on_duty_not_driving),
+  };
+};
+
+const sameEntry = (a: LogEntry, b: LogEntry) =>
+  a.duty_status === b.duty_status &&
+  a.start_hour === b.start_hour &&
+  a.end_hour === b.end_hour;
+
+/** Spans only in `before` and only in `after`, i.e. what an edit changed. */
+export const diffLogEntries = (before: LogEntry[], after: LogEntry[]) => ({
+  removed: before.filter((entry) => !after.some((e) => sameEntry(e, entry))),
+  added: after.filter((entry) => !before.some((e) => sameEntry(e, entry))),
+});
+
+/** The trip with each day's log replaced by its latest edit, if any. */
+export const applyLogEdits = (trip: TripResult, edits: LogEdit[]): TripResult => {
+  if (!edits.length || !trip.daily_logs) return trip;
+
+  return {
+    ...trip,
+    daily_logs: trip.daily_logs.map((log) => {
+      const latest = edits
+        .filter((edit) => edit.day_number === log.day_number)
+        .at(-1);
+      return latest
+        ? withDutyTotals(log, normalizeLogEntries(latest.after))
+        : log;
+    }),
+  };
+};
@@ -0,0 +1,153 @@
+import type { FuelSettings, TripResult, TripSegment } from "../api/types";
+
+export const DEFAULT_FUEL_SETTINGS: FuelSettings = {
+  tank_capacity_gallons: 200,
+  average_mpg: 6.5,
+  starting_fuel_level: 0.5,
+};
+
+// Fuel is never planned to drop below this share of the tank
+export const FUEL_RESERVE = 0.1;
+
+/** What to buy at one fuel segment. */
+export interface FuelStopPlan {
+  segmentIndex: number;
+  /** Route miles driven before the stop. */
+  mile: number;
+  pricePerGallon: number | null;
+  gallons: number;
+  /** Null when the stop has no price. */
+  cost: number | null;
+  /** Gallons in the tank on arrival. */
+  fuelOnArrival: number;
+}
+
+/** A stretch between fuel opportunities longer than a full tank covers. */
+export interface FuelRangeWarning {
+  fromMile: number;
+  toMile: number;
+  /** The fuel stop the stretch ends at, or null for the end of the trip. */
+  segmentIndex: number | null;
+}
+
+export interface FuelPlan {
+  settings: FuelSettings;
+  stops: FuelStopPlan[];
+  totalGallons: number;
+  /** Cost of the priced stops. */
+  totalCost: number;
+  /** Whether some fuel is bought at a stop without a price. */
+  unpricedGallons: boolean;
+  fuelAtEnd: number;
+  /** Miles a full tank covers down to the reserve. */
+  rangeMiles: number;
+  warnings: FuelRangeWarning[];
+}
+
+/** The trip's fuel inputs, with defaults for anything it wasn't sent. */
+export const fuelSettingsOf = (trip: TripResult): FuelSettings => ({
+  tank_capacity_gallons:
+    trip.tank_capacity_gallons ?? DEFAULT_FUEL_SETTINGS.tank_capacity_gallons,
+  average_mpg: trip.average_mpg ?? DEFAULT_FUEL_SETTINGS.average_mpg,
+  starting_fuel_level:
+    trip.starting_fuel_level ?? DEFAULT_FUEL_SETTINGS.starting_fuel_level,
+});
+
+/**
+ * Decides how much to buy at each fuel segment. At every stop the driver
+ * buys just enough to reach the next cheaper stop within a full tank's range,
+ * or fills up (no more than the rest of the trip needs) when none is. Stops
+ * where that comes to nothing are skipped. `prices` is indexed like
+ * `segments`; a stop without a price is never counted as cheaper.
+ */
+export const planFuel = (
+  segments: TripSegment[],
+  settings: FuelSettings,
+  prices: (number | null)[]
+): FuelPlan => {
+  const tank = settings.tank_capacity_gallons;
+  const mpg = settings.average_mpg;
+  const reserve = tank * FUEL_RESERVE;
+  const rangeMiles = (tank - reserve) * mpg;
+
+  let miles = 0;
+  const fuelStops: Omit<FuelStopPlan, "gallons" | "cost" | "fuelOnArrival">[] =
+    [];
+  segments.forEach((segment, segmentIndex) => {
+    if (segment.segment_type === "fuel") {
+      fuelStops.push({
+        segmentIndex,
+        mile: miles,
+        pricePerGallon: prices[segmentIndex] ?? null,
+      });
+    }
+    miles += segment.distance_miles;
+  });
+  const totalMiles = miles;
+
+  const warnings: FuelRangeWarning[] = [];
+  const checkpoints = [
+    ...fuelStops.map(({ mile, segmentIndex }) => ({ mile, segmentIndex })),
+    { mile: totalMiles, segmentIndex: null },
+  ];
+  let fromMile = 0;
+  // The first stretch starts from whatever is in the tank
+  let reach =
+    Math.max(0, tank * settings.starting_fuel_level - reserve) * mpg;
+  for (const { mile, segmentIndex } of checkpoints) {
+    if (mile - fromMile > reach) {
+      warnings.push({ fromMile, toMile: mile, segmentIndex });
+    }
+    fromMile = mile;
+    reach = rangeMiles;
+  }
+
+  let fuel = tank * settings.starting_fuel_level;
+  let lastMile = 0;
+  const stops = fuelStops.map((stop, i): FuelStopPlan => {
+    fuel = Math.max(0, fuel - (stop.mile - lastMile) / mpg);
+    lastMile = stop.mile;
+
+    const price = stop.pricePerGallon;
+    const cheaper =
+      price === null
+        ? undefined
+        : fuelStops
+            .slice(i + 1)
+            .find(
+              (next) =>
+                next.mile - stop.mile <= rangeMiles &&
+                next.pricePerGallon !== null &&
+                next.pricePerGallon < price
+            );
+    const needed = cheaper
+      ? (cheaper.mile - stop.mile) / mpg + reserve
+      : Math.min(tank, (totalMiles - stop.mile) / mpg + reserve);
+    const gallons = Math.max(0, needed - fuel);
+    const fuelOnArrival = fuel;
+    fuel += gallons;
+
+    return {
+      ...stop,
+      gallons,
+      cost: price === null ? null : gallons * price,
+      fuelOnArrival,
+    };
+  });
+
+  return {
+    settings,
+    stops,
+    totalGallons: stops.reduce((sum, stop) => sum + stop.gallons, 0),
+    totalCost: stops.reduce((sum, stop) => sum + (stop.cost ?? 0), 0),
+    unpricedGallons: stops.some(
+      (stop) => stop.cost === null && stop.gallons > 0
+    ),
+    fuelAtEnd: Math.max(0, fuel - (totalMiles - lastMile) / mpg),
+    rangeMiles,
+    warnings,
+  };
+};
+
+export const formatCurrency = (amount: number): string =>
+  amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
@@ -0,0 +1,109 @@
+import type { Location } from "../api/types";
+import { idbGet, idbSet } from "./idb";
+
+const CACHE_KEY = "geocode-cache";
+const RECENT_KEY = "recent-locations";
+const MAX_QUERIES = 200;
+const MAX_RECENT = 8;
+const PERSIST_DELAY_MS = 1000;
+
+// Map iteration order is insertion order, so the first key is the least
+// recently used one.
+const results = new Map<string, Location[]>();
+let recent: Location[] = [];
+const recentListeners = new Set<() => void>();
+let loadPromise: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+const normalize = (query: string) =>
+  query.trim().toLowerCase().replace(/\s+/g, " ");
+
+const schedulePersist = () => {
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    idbSet(CACHE_KEY, [...results.entries()]);
+  }, PERSIST_DELAY_MS);
+};
+
+/**
+ * Restores the cache from IndexedDB once per page load. Safe to call from
+ * every LocationSelect; entries cached before it resolves are kept.
+ */
+export const loadGeocodeCache = (): Promise<void> => {
+  if (!loadPromise) {
+    loadPromise = Promise.all([
+      idbGet<[string, Location[]][]>(CACHE_KEY),
+      idbGet<Location[]>(RECENT_KEY),
+    ]).then(([storedResults, storedRecent]) => {
+      const fresh = [...results.entries()];
+      results.clear();
+      for (const [query, locations] of [...(storedResults ?? []), ...fresh]) {
+        results.delete(query);
+        results.set(query, locations);
+      }
+      while (results.size > MAX_QUERIES) {
+        results.delete(results.keys().next().value!);
+      }
+      if (storedRecent && recent.length === 0) {
+        recent = storedRecent;
+        recentListeners.forEach((listener) => listener());
+      }
+    });
+  }
+  return loadPromise;
+};
+
+/** Suggestions for a query seen before, marking it as recently used. */
+export const getCachedResults = (query: string): Location[] | undefined => {
+  const key = normalize(query);
+  const locations = results.get(key);
+  if (locations) {
+    results.delete(key);
+    results.set(key, locations);
+  }
+  return locations;
+};
+
+export const cacheResults = (query: string, locations: Location[]) => {
+  const key = normalize(query);
+  results.delete(key);
+  results.set(key, locations);
+  if (results.size > MAX_QUERIES) {
+    results.delete(results.keys().next().value!);
+  }
+  schedulePersist();
+};
+
+/** Locations picked recently in any LocationSelect, newest first. */
+export const getRecentLocations = (): Location[] => recent;
+
+/** For useSyncExternalStore, so every LocationSelect sees new picks. */
+export const subscribeRecentLocations = (listener: () => void) => {
+  recentListeners.add(listener);
+  return () => {
+    recentListeners.delete(listener);
+  };
+};
+
+export const addRecentLocation = (location: Location) => {
+  recent = [
+    location,
+    ...recent.filter(
+      (item) => item.id !== location.id && item.name !== location.name
+    ),
+  ].slice(0, MAX_RECENT);
+  recentListeners.forEach((listener) => listener());
+  idbSet(RECENT_KEY, recent);
+};
+
+/** Recent picks whose name contains the query, or all of them when blank. */
+export const matchRecentLocations = (
+  locations: Location[],
+  query: string
+): Location[] => {
+  const needle = normalize(query);
+  return needle
+    ? locations.filter((location) => normalize(location.name).includes(needle))
+    : locations;
+};
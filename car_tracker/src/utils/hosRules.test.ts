@@ -0,0 +1,304 @@
+import { describe, expect, it } from "vitest";
+import type { HosRuleSetId, TripResult, TripSegment } from "../api/types";
+import { hosClockAt, validateTrip } from "./hosRules";
+
+const START = Date.parse("2025-03-03T06:00:00Z");
+const HOUR = 3_600_000;
+
+/** A trip of back-to-back segments, each given as [type, hours]. */
+const tripOf = (
+  spans: [string, number][],
+  {
+    cycleUsed = 0,
+    ruleSet,
+  }: { cycleUsed?: number; ruleSet?: HosRuleSetId } = {}
+): TripResult => {
+  let cursor = START;
+  const segments: TripSegment[] = spans.map(([type, hours], index) => {
+    const start = cursor;
+    cursor += hours * HOUR;
+    return {
+      segment_type: type,
+      sequence_number: index + 1,
+      start_time: new Date(start).toISOString(),
+      end_time: new Date(cursor).toISOString(),
+      duration_hours: hours,
+      distance_miles: type === "driving" ? hours * 55 : 0,
+      location: "Somewhere, TX",
+    };
+  });
+
+  return {
+    id: 1,
+    current_location: "Dallas, TX",
+    pickup_location: "Dallas, TX",
+    dropoff_location: "Denver, CO",
+    current_cycle_used: String(cycleUsed),
+    total_distance: "0",
+    total_duration: "0",
+    fuel_stops: 0,
+    required_rest_stops: 0,
+    segments,
+    hos_rule_set: ruleSet,
+    created_at: new Date(START).toISOString(),
+  };
+};
+
+const rulesBroken = (trip: TripResult) =>
+  validateTrip(trip).map((violation) => violation.rule);
+
+describe("validateTrip", () => {
+  describe("11-hour driving limit", () => {
+    it("allows 11 hours of driving", () => {
+      expect(
+        rulesBroken(
+          tripOf([
+            ["driving", 7],
+            ["rest_break", 0.5],
+            ["driving", 4],
+          ])
+        )
+      ).toEqual([]);
+    });
+
+    it("reports driving past 11 hours once", () => {
+      const violations = validateTrip(
+        tripOf([
+          ["driving", 7],
+          ["rest_break", 0.5],
+          ["driving", 4.5],
+          ["driving", 1],
+        ])
+      );
+      expect(violations.map((v) => v.rule)).toEqual(["driving_limit"]);
+      expect(violations[0].sequenceNumber).toBe(3);
+    });
+  });
+
+  describe("14-hour duty window", () => {
+    it("reports driving after the window closes", () => {
+      expect(
+        rulesBroken(
+          tripOf([
+            ["pickup", 4],
+            ["driving", 6],
+            ["rest_break", 3],
+            ["driving", 2],
+          ])
+        )
+      ).toEqual(["duty_window"]);
+    });
+
+    it("doesn't extend the window for off-duty time", () => {
+      expect(
+        rulesBroken(
+          tripOf([
+            ["pickup", 2],
+            ["driving", 6],
+            ["off_duty", 5],
+            ["driving", 2],
+          ])
+        )
+      ).toEqual(["duty_window"]);
+    });
+  });
+
+  describe("30-minute break", () => {
+    it("reports 8 hours of driving without a break", () => {
+      expect(rulesBroken(tripOf([["driving", 8.5]]))).toEqual([
+        "break_required",
+      ]);
+    });
+
+    it("accepts a 30-minute break, on duty or off", () => {
+      expect(
+        rulesBroken(
+          tripOf([
+            ["driving", 8],
+            ["rest_break", 0.5],
+            ["driving", 2],
+          ])
+        )
+      ).toEqual([]);
+      expect(
+        rulesBroken(
+          tripOf([
+            ["driving", 8],
+            ["fuel", 0.5],
+            ["driving", 2],
+          ])
+        )
+      ).toEqual([]);
+    });
+
+    it("doesn't apply to short-haul drivers", () => {
+      expect(
+        rulesBroken(tripOf([["driving", 8.5]], { ruleSet: "short_haul_150" }))
+      ).toEqual([]);
+    });
+  });
+
+  describe("10-hour reset", () => {
+    it("restarts the shift after 10 hours off", () => {
+      expect(
+        rulesBroken(
+          tripOf([
+            ["driving", 7],
+            ["rest_break", 0.5],
+            ["driving", 4],
+            ["sleeper_berth", 10],
+            ["driving", 7],
+            ["rest_break", 0.5],
+            ["driving", 4],
+          ])
+        )
+      ).toEqual([]);
+    });
+
+    it("reports driving that resumes after a short rest once", () => {
+      const violations = validateTrip(
+        tripOf([
+          ["driving", 7],
+          ["rest_break", 0.5],
+          ["driving", 4],
+          ["off_duty", 4],
+          ["driving", 2],
+        ])
+      );
+      expect(violations.map((v) => v.rule)).toEqual(["reset_period"]);
+      expect(violations[0].sequenceNumber).toBe(5);
+    });
+
+    it("doesn't report a short rest in the berth on its own", () => {
+      expect(
+        rulesBroken(
+          tripOf([
+            ["driving", 4],
+            ["sleeper_berth", 1],
+            ["driving", 4],
+          ])
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe("split sleeper berth", () => {
+    it("accepts a 7 and 3 hour pair in place of the reset", () => {
+      expect(
+        rulesBroken(
+          tripOf([
+            ["driving", 7],
+            ["rest_break", 0.5],
+            ["driving", 1],
+            ["sleeper_berth", 7],
+            ["driving", 3],
+            ["off_duty", 3],
+            ["driving", 8],
+          ])
+        )
+      ).toEqual([]);
+    });
+
+    it("doesn't report a trip ending before the pair's second rest", () => {
+      expect(
+        rulesBroken(
+          tripOf([
+            ["driving", 7],
+            ["rest_break", 0.5],
+            ["driving", 1],
+            ["sleeper_berth", 7],
+          ])
+        )
+      ).toEqual([]);
+    });
+
+    it("reports driving past the limit between the halves", () => {
+      expect(
+        rulesBroken(
+          tripOf([
+            ["driving", 7],
+            ["rest_break", 0.5],
+            ["driving", 1],
+            ["sleeper_berth", 7],
+            ["driving", 4],
+          ])
+        )
+      ).toEqual(["driving_limit"]);
+    });
+  });
+
+  describe("cycle limit", () => {
+    it("counts the hours used before the trip on 70 hours in 8 days", () => {
+      expect(rulesBroken(tripOf([["driving", 6]], { cycleUsed: 65 }))).toEqual([
+        "cycle_limit",
+      ]);
+      expect(rulesBroken(tripOf([["driving", 6]], { cycleUsed: 60 }))).toEqual(
+        []
+      );
+    });
+
+    it("allows 60 hours in 7 days on the 60-hour rule set", () => {
+      const trip = (cycleUsed: number) =>
+        tripOf([["driving", 6]], { cycleUsed, ruleSet: "property_60_7" });
+      expect(rulesBroken(trip(55))).toEqual(["cycle_limit"]);
+      expect(rulesBroken(trip(50))).toEqual([]);
+    });
+
+    it("clears the cycle after a 34-hour restart", () => {
+      expect(
+        rulesBroken(
+          tripOf(
+            [
+              ["off_duty", 34],
+              ["driving", 6],
+            ],
+            { cycleUsed: 65 }
+          )
+        )
+      ).toEqual([]);
+      expect(
+        rulesBroken(
+          tripOf(
+            [
+              ["off_duty", 33],
+              ["driving", 6],
+            ],
+            { cycleUsed: 65 }
+          )
+        )
+      ).toEqual(["cycle_limit"]);
+    });
+  });
+});
+
+describe("hosClockAt", () => {
+  it("tracks the clocks part way through a shift", () => {
+    const trip = tripOf(
+      [
+        ["driving", 5],
+        ["off_duty", 10],
+        ["driving", 1],
+      ],
+      {
+        cycleUsed: 20,
+      }
+    );
+    const clock = hosClockAt(trip, START + 5 * HOUR);
+
+    expect(clock?.drivingRemaining).toBe(6);
+    expect(clock?.windowRemaining).toBe(9);
+    expect(clock?.cycleUsed).toBe(25);
+    expect(clock?.breakDueIn).toBe(3);
+  });
+
+  it("starts a new cycle after a 34-hour restart", () => {
+    const trip = tripOf(
+      [
+        ["off_duty", 34],
+        ["driving", 2],
+      ],
+      { cycleUsed: 65 }
+    );
+    expect(hosClockAt(trip, START + 36 * HOUR)?.cycleUsed).toBe(2);
+  });
+});
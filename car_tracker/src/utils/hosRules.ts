@@ -0,0 +1,596 @@
+import type {
+  DailyLog,
+  HosRuleSetId,
+  TripResult,
+  TripSegment,
+} from "../api/types";
+import type { DutyStatus } from "./eldLog";
+import { computeDutyTotals, formatHours, normalizeLogEntries } from "./eldLog";
+import { zonedTimeToEpoch } from "./time";
+
+export type HosRuleId =
+  | "driving_limit"
+  | "duty_window"
+  | "break_required"
+  | "reset_period"
+  | "cycle_limit"
+  | "log_totals";
+
+export interface HosLimits {
+  maxDrivingHours: number;
+  dutyWindowHours: number;
+  breakAfterDrivingHours: number | null; // null when no break is required
+  breakMinutes: number;
+  resetHours: number;
+  cycleHours: number;
+  cycleDays: number;
+  restartHours: number;
+}
+
+export interface HosRuleSet {
+  id: HosRuleSetId;
+  label: string;
+  description: string;
+  limits: HosLimits;
+}
+
+/** Property-carrying driver, 70 hours in 8 days (49 CFR 395.3). */
+export const PROPERTY_70_8: HosLimits = {
+  maxDrivingHours: 11,
+  dutyWindowHours: 14,
+  breakAfterDrivingHours: 8,
+  breakMinutes: 30,
+  resetHours: 10,
+  cycleHours: 70,
+  cycleDays: 8,
+  restartHours: 34,
+};
+
+export const HOS_RULE_SETS: Record<HosRuleSetId, HosRuleSet> = {
+  property_70_8: {
+    id: "property_70_8",
+    label: "Property 70-hour / 8-day",
+    description:
+      "Property-carrying, carrier operates every day of the week (49 CFR 395.3)",
+    limits: PROPERTY_70_8,
+  },
+  property_60_7: {
+    id: "property_60_7",
+    label: "Property 60-hour / 7-day",
+    description:
+      "Property-carrying, carrier does not operate every day of the week (49 CFR 395.3)",
+    limits: { ...PROPERTY_70_8, cycleHours: 60, cycleDays: 7 },
+  },
+  short_haul_150: {
+    id: "short_haul_150",
+    label: "Short-haul 150 air-mile",
+    description:
+      "Returns to the work reporting location within 14 hours; exempt from the " +
+      "30-minute break and ELD (49 CFR 395.1(e)(1))",
+    limits: { ...PROPERTY_70_8, breakAfterDrivingHours: null },
+  },
+};
+
+export const DEFAULT_RULE_SET: HosRuleSetId = "property_70_8";
+
+export interface HosViolation {
+  rule: HosRuleId;
+  message: string;
+  segmentIndex?: number;
+  sequenceNumber?: number;
+  dayNumber?: number;
+}
+
+export const HOS_RULE_LABELS: Record<HosRuleId, string> = {
+  driving_limit: "Driving limit",
+  duty_window: "Duty window",
+  break_required: "30-minute break",
+  reset_period: "10-hour reset",
+  cycle_limit: "Cycle limit",
+  log_totals: "Daily log totals",
+};
+
+interface DutyPeriod {
+  status: DutyStatus;
+  start: number; // hours since the start of the trip
+  end: number;
+  segmentIndex?: number;
+  dayNumber?: number;
+}
+
+// Allow a minute of rounding in backend hours before calling it a violation
+const TOLERANCE = 1 / 60;
+
+const SEGMENT_DUTY_STATUS: Record<string, DutyStatus> = {
+  driving: "driving",
+  sleeper_berth: "sleeper_berth",
+  rest_break: "off_duty",
+  off_duty: "off_duty",
+};
+
+export const segmentDutyStatus = (segment: TripSegment): DutyStatus =>
+  SEGMENT_DUTY_STATUS[segment.segment_type] || "on_duty_not_driving";
+
+const isRest = (status: DutyStatus) =>
+  status === "off_duty" || status === "sleeper_berth";
+
+// Split sleeper berth (49 CFR 395.1(g)(1)(ii)): at least 7 hours in the
+// berth paired with at least 2 more off duty or in the berth, together at
+// least the reset, stand in for the reset
+const SPLIT_SLEEPER_HOURS = 7;
+const SPLIT_SHORT_REST_HOURS = 2;
+
+/** Consecutive rest periods, with the longest unbroken sleeper berth run. */
+interface RestBlock {
+  hours: number;
+  sleeperHours: number;
+  end: number;
+}
+
+const isSplitRest = (rest: RestBlock, limits: HosLimits) =>
+  rest.hours >= SPLIT_SHORT_REST_HOURS - TOLERANCE &&
+  rest.hours < limits.resetHours - TOLERANCE;
+
+const isSplitPair = (first: RestBlock, second: RestBlock, limits: HosLimits) =>
+  isSplitRest(first, limits) &&
+  isSplitRest(second, limits) &&
+  Math.max(first.sleeperHours, second.sleeperHours) >=
+    SPLIT_SLEEPER_HOURS - TOLERANCE &&
+  first.hours + second.hours >= limits.resetHours - TOLERANCE;
+
+/**
+ * Lays the segments out on a single time axis. Real timestamps are used when
+ * they parse, otherwise segments are assumed back to back. Gaps between
+ * segments count as off duty.
+ */
+const periodsFromSegments = (segments: TripSegment[]): DutyPeriod[] => {
+  const sorted = segments
+    .map((segment, segmentIndex) => ({ segment, segmentIndex }))
+    .sort((a, b) => a.segment.sequence_number - b.segment.sequence_number);
+
+  const origin = Date.parse(sorted[0]?.segment.start_time ?? "");
+  const periods: DutyPeriod[] = [];
+  let cursor = 0;
+
+  for (const { segment, segmentIndex } of sorted) {
+    const startMs = Date.parse(segment.start_time);
+    const endMs = Date.parse(segment.end_time);
+    const hasTimes = !isNaN(origin) && !isNaN(startMs) && !isNaN(endMs);
+
+    const start = hasTimes ? (startMs - origin) / 3_600_000 : cursor;
+    const end = hasTimes ? (endMs - origin) / 3_600_000 : start + segment.duration_hours;
+
+    if (start > cursor + TOLERANCE) {
+      periods.push({ status: "off_duty", start: cursor, end: start });
+    }
+    periods.push({ status: segmentDutyStatus(segment), start, end, segmentIndex });
+    cursor = Math.max(cursor, end);
+  }
+
+  return periods;
+};
+
+// Whole days since the epoch for a YYYY-MM-DD log date, NaN if it won't parse
+const logDayNumber = (log: DailyLog) =>
+  Date.parse(`${log.log_date}T00:00:00Z`) / 86_400_000;
+
+/**
+ * Lays the days' entries out on one time axis, placing each day by its
+ * `log_date` so missing days show as gaps, or back to back by `day_number`
+ * when the dates don't parse. Hours count from the first day's midnight.
+ */
+const periodsFromLogs = (dailyLogs: DailyLog[]): DutyPeriod[] => {
+  const byDate = dailyLogs.every((log) => !isNaN(logDayNumber(log)));
+  const sorted = [...dailyLogs].sort((a, b) =>
+    byDate ? logDayNumber(a) - logDayNumber(b) : a.day_number - b.day_number
+  );
+  const firstDay = byDate && sorted.length ? logDayNumber(sorted[0]) : 0;
+
+  return sorted.flatMap((log, dayIndex) => {
+    const dayStart = (byDate ? logDayNumber(log) - firstDay : dayIndex) * 24;
+    return normalizeLogEntries(log.entries).map((entry) => ({
+      status: entry.duty_status as DutyStatus,
+      start: dayStart + entry.start_hour,
+      end: dayStart + entry.end_hour,
+      dayNumber: log.day_number,
+    }));
+  });
+};
+
+/**
+ * Running hours-of-service state while walking a timeline of duty periods:
+ * driving and duty window since the last reset, driving since the last break,
+ * and the hours inside the rolling cycle. A split sleeper pair restarts the
+ * shift at the end of its first rest, leaving the second out of the window;
+ * the berth half is left out as soon as it ends, as ELDs do. `shift` counts
+ * resets and pairs.
+ *
+ * Only the total of `cycleUsedAtStart` is known, not the days it was worked,
+ * so it counts in full until a whole cycle has passed since the start and
+ * then drops out at once. That errs on the cautious side: the real hours
+ * roll off day by day, some of them sooner.
+ */
+const createDutyClock = (limits: HosLimits, cycleUsedAtStart: number) => {
+  const cycleWindow = limits.cycleDays * 24;
+  const state = {
+    consecutiveRest: 0,
+    sleeperRun: 0,
+    restSleeper: 0,
+    splitRest: null as RestBlock | null,
+    shift: 0,
+    drivingSinceSplit: 0,
+    nonDrivingRun: 0,
+    shiftStart: null as number | null,
+    shiftDriving: 0,
+    drivingSinceBreak: 0,
+    carriedCycleHours: cycleUsedAtStart,
+    onDutyPeriods: [] as { start: number; end: number }[],
+  };
+
+  const cycleHoursAt = (time: number) => {
+    const windowStart = time - cycleWindow;
+    const worked = state.onDutyPeriods.reduce(
+      (sum, p) => sum + Math.max(0, Math.min(p.end, time) - Math.max(p.start, windowStart)),
+      0
+    );
+    // Hours carried in from before the trip age out once a full cycle passes
+    return worked + (windowStart < 0 ? state.carriedCycleHours : 0);
+  };
+
+  // Called when duty resumes after a rest that ended at `end`
+  const closeRest = (end: number) => {
+    const rest: RestBlock = {
+      hours: state.consecutiveRest,
+      sleeperHours: state.restSleeper,
+      end,
+    };
+    state.consecutiveRest = 0;
+    state.sleeperRun = 0;
+    state.restSleeper = 0;
+    if (!isSplitRest(rest, limits)) return;
+
+    if (state.splitRest && isSplitPair(state.splitRest, rest, limits)) {
+      state.shiftStart = state.splitRest.end + rest.hours;
+      state.shiftDriving = state.drivingSinceSplit;
+      state.shift += 1;
+    } else if (
+      state.shiftStart !== null &&
+      rest.sleeperHours >= SPLIT_SLEEPER_HOURS - TOLERANCE
+    ) {
+      state.shiftStart += rest.hours;
+    }
+    // The second rest of a pair can start the next one
+    state.splitRest = rest;
+    state.drivingSinceSplit = 0;
+  };
+
+  const add = (period: DutyPeriod) => {
+    const duration = period.end - period.start;
+
+    if (isRest(period.status)) {
+      state.consecutiveRest += duration;
+      state.nonDrivingRun += duration;
+      state.sleeperRun =
+        period.status === "sleeper_berth" ? state.sleeperRun + duration : 0;
+      state.restSleeper = Math.max(state.restSleeper, state.sleeperRun);
+
+      if (
+        state.consecutiveRest >= limits.resetHours - TOLERANCE &&
+        state.shiftStart !== null
+      ) {
+        state.shift += 1;
+        state.shiftStart = null;
+        state.shiftDriving = 0;
+        state.drivingSinceBreak = 0;
+        state.splitRest = null;
+      }
+      if (state.consecutiveRest >= limits.restartHours - TOLERANCE) {
+        state.onDutyPeriods = [];
+        state.carriedCycleHours = 0;
+      }
+    } else {
+      if (state.consecutiveRest > 0) closeRest(period.start);
+      if (state.shiftStart === null) state.shiftStart = period.start;
+      state.onDutyPeriods.push({ start: period.start, end: period.end });
+
+      if (period.status === "driving") {
+        state.nonDrivingRun = 0;
+        state.shiftDriving += duration;
+        state.drivingSinceBreak += duration;
+        state.drivingSinceSplit += duration;
+      } else {
+        state.nonDrivingRun += duration;
+      }
+    }
+
+    if (state.nonDrivingRun >= limits.breakMinutes / 60 - TOLERANCE) {
+      state.drivingSinceBreak = 0;
+    }
+  };
+
+  return { state, add, cycleHoursAt };
+};
+
+const checkPeriods = (
+  periods: DutyPeriod[],
+  cycleUsedAtStart: number,
+  limits: HosLimits,
+  segments: TripSegment[]
+): HosViolation[] => {
+  const violations: HosViolation[] = [];
+  const clock = createDutyClock(limits, cycleUsedAtStart);
+  const { state } = clock;
+
+  const report = (period: DutyPeriod, rule: HosRuleId, message: string) => {
+    const segment =
+      period.segmentIndex !== undefined ? segments[period.segmentIndex] : undefined;
+    violations.push({
+      rule,
+      message,
+      segmentIndex: period.segmentIndex,
+      sequenceNumber: segment?.sequence_number,
+      dayNumber: period.dayNumber,
+    });
+  };
+
+  // Rules in breach, so a breach is reported where it starts rather than
+  // on every later period. Cleared when the shift restarts.
+  const inBreach = new Set<HosRuleId>();
+  let breachShift = state.shift;
+  const check = (
+    period: DutyPeriod,
+    rule: HosRuleId,
+    breached: boolean,
+    message: () => string
+  ) => {
+    if (!breached) {
+      inBreach.delete(rule);
+    } else if (!inBreach.has(rule)) {
+      inBreach.add(rule);
+      report(period, rule, message());
+    }
+  };
+
+  periods.forEach((period) => {
+    const restBefore = state.consecutiveRest;
+    clock.add(period);
+    const duration = period.end - period.start;
+
+    if (period.status !== "driving" || state.shiftStart === null) return;
+    if (state.shift !== breachShift) {
+      inBreach.clear();
+      breachShift = state.shift;
+    }
+
+    // A short rest is only a breach when the shift before it was spent and
+    // driving resumes without a reset or split pair having restarted it.
+    // The limits it leaves exceeded are this breach, not separate ones.
+    const drivingSpent =
+      state.shiftDriving - duration >= limits.maxDrivingHours - TOLERANCE;
+    const windowSpent =
+      period.start - state.shiftStart >= limits.dutyWindowHours - TOLERANCE;
+    if (restBefore > 0 && (drivingSpent || windowSpent)) {
+      report(
+        period,
+        "reset_period",
+        `Driving resumes after ${formatHours(restBefore)} of rest, short of ` +
+          `the ${limits.resetHours}-hour reset the spent shift needs`
+      );
+      if (drivingSpent) inBreach.add("driving_limit");
+      if (windowSpent) inBreach.add("duty_window");
+    }
+
+    check(
+      period,
+      "driving_limit",
+      state.shiftDriving > limits.maxDrivingHours + TOLERANCE,
+      () =>
+        `${formatHours(state.shiftDriving)} driven since the last ${limits.resetHours}-hour ` +
+        `reset exceeds the ${limits.maxDrivingHours}-hour limit`
+    );
+    const shiftHours = period.end - state.shiftStart;
+    check(
+      period,
+      "duty_window",
+      shiftHours > limits.dutyWindowHours + TOLERANCE,
+      () =>
+        `Driving ends ${formatHours(shiftHours)} after coming on ` +
+        `duty, outside the ${limits.dutyWindowHours}-hour window`
+    );
+    check(
+      period,
+      "break_required",
+      limits.breakAfterDrivingHours !== null &&
+        state.drivingSinceBreak > limits.breakAfterDrivingHours + TOLERANCE,
+      () =>
+        `${formatHours(state.drivingSinceBreak)} driven without a ` +
+        `${limits.breakMinutes}-minute break (required after ` +
+        `${limits.breakAfterDrivingHours}h)`
+    );
+    const cycleHours = clock.cycleHoursAt(period.end);
+    check(
+      period,
+      "cycle_limit",
+      cycleHours > limits.cycleHours + TOLERANCE,
+      () =>
+        `${formatHours(cycleHours)} on duty in ${limits.cycleDays} days exceeds ` +
+        `the ${limits.cycleHours}-hour cycle`
+    );
+  });
+
+  return violations;
+};
+
+const checkLogTotals = (dailyLogs: DailyLog[]): HosViolation[] =>
+  dailyLogs.flatMap((log) => {
+    const reported =
+      log.off_duty_hours +
+      log.sleeper_berth_hours +
+      log.driving_hours +
+      log.on_duty_hours;
+    const violations: HosViolation[] = [];
+
+    if (Math.abs(reported - 24) > TOLERANCE) {
+      violations.push({
+        rule: "log_totals",
+        message: `Duty status totals add up to ${formatHours(reported)} instead of 24:00`,
+        dayNumber: log.day_number,
+      });
+    }
+
+    if (log.entries?.length) {
+      const graphed = computeDutyTotals(normalizeLogEntries(log.entries));
+      if (Math.abs(graphed.driving - log.driving_hours) > TOLERANCE) {
+        violations.push({
+          rule: "log_totals",
+          message:
+            `Driving total ${formatHours(log.driving_hours)} does not match the ` +
+            `${formatHours(graphed.driving)} graphed in the log entries`,
+          dayNumber: log.day_number,
+        });
+      }
+    }
+
+    return violations;
+  });
+
+/**
+ * Checks a returned plan against the hours-of-service rules. The segments are
+ * the primary timeline; the daily logs are used when a plan has no segments,
+ * and are always checked for internally consistent totals.
+ */
+export const validateTrip = (
+  trip: TripResult,
+  limits: HosLimits = HOS_RULE_SETS[trip.hos_rule_set || DEFAULT_RULE_SET].limits
+): HosViolation[] => {
+  const segments = trip.segments || [];
+  const dailyLogs = trip.daily_logs || [];
+  const cycleUsed = parseFloat(trip.current_cycle_used) || 0;
+
+  const periods = segments.length
+    ? periodsFromSegments(segments)
+    : periodsFromLogs(dailyLogs);
+
+  return [
+    ...checkPeriods(periods, cycleUsed, limits, segments),
+    ...checkLogTotals(dailyLogs),
+  ];
+};
+
+/** A driver's hours-of-service clocks at one moment. */
+export interface HosClock {
+  status: DutyStatus;
+  /** Driving hours left before the daily driving limit. */
+  drivingRemaining: number;
+  /** Hours left in the duty window; the whole window while off duty. */
+  windowRemaining: number;
+  /** On-duty hours inside the rolling cycle, as `current_cycle_used`. */
+  cycleUsed: number;
+  cycleRemaining: number;
+  /** Driving hours left before a break is required; null when none is. */
+  breakDueIn: number | null;
+  /** The next rest or break the plan schedules after that moment. */
+  nextRest?: TripSegment;
+}
+
+/**
+ * Walks the periods up to `now` (hours on their axis). Time after the last
+ * period counts as off duty, so a long enough gap resets the clocks.
+ */
+const clockAt = (
+  periods: DutyPeriod[],
+  cycleUsedAtStart: number,
+  limits: HosLimits,
+  now: number
+): HosClock => {
+  const clock = createDutyClock(limits, cycleUsedAtStart);
+  let status: DutyStatus = "off_duty";
+  let cursor = periods[0]?.start ?? now;
+
+  for (const period of periods) {
+    if (period.start >= now) break;
+    clock.add({ ...period, end: Math.min(period.end, now) });
+    if (period.end > now) status = period.status;
+    cursor = Math.max(cursor, period.end);
+  }
+  if (cursor < now) {
+    clock.add({ status: "off_duty", start: cursor, end: now });
+  }
+
+  const { shiftStart, shiftDriving, drivingSinceBreak } = clock.state;
+  const cycleUsed = clock.cycleHoursAt(now);
+  return {
+    status,
+    drivingRemaining: Math.max(0, limits.maxDrivingHours - shiftDriving),
+    windowRemaining:
+      shiftStart === null
+        ? limits.dutyWindowHours
+        : Math.max(0, limits.dutyWindowHours - (now - shiftStart)),
+    cycleUsed,
+    cycleRemaining: Math.max(0, limits.cycleHours - cycleUsed),
+    breakDueIn:
+      limits.breakAfterDrivingHours === null
+        ? null
+        : Math.max(0, limits.breakAfterDrivingHours - drivingSinceBreak),
+  };
+};
+
+/**
+ * Where the plan leaves the driver's clocks at `time` (epoch ms), assuming
+ * the trip runs to schedule. Returns null for plans without timed segments.
+ */
+export const hosClockAt = (
+  trip: TripResult,
+  time: number,
+  limits: HosLimits = HOS_RULE_SETS[trip.hos_rule_set || DEFAULT_RULE_SET].limits
+): HosClock | null => {
+  const segments = trip.segments || [];
+  const first = [...segments].sort(
+    (a, b) => a.sequence_number - b.sequence_number
+  )[0];
+  // Same origin as periodsFromSegments, which counts hours from the first
+  const origin = Date.parse(first?.start_time ?? "");
+  if (isNaN(origin)) return null;
+
+  return {
+    ...clockAt(
+      periodsFromSegments(segments),
+      parseFloat(trip.current_cycle_used) || 0,
+      limits,
+      (time - origin) / 3_600_000
+    ),
+    nextRest: segments.find(
+      (segment) =>
+        isRest(segmentDutyStatus(segment)) && Date.parse(segment.start_time) > time
+    ),
+  };
+};
+
+/**
+ * A driver's clocks at `time` (epoch ms) from their recent daily logs, which
+ * should cover at least the cycle's days. Log days start at midnight in the
+ * home terminal's `timeZone`, or the browser's without one. Returns null
+ * without dated logs.
+ */
+export const hosClockFromLogs = (
+  dailyLogs: DailyLog[],
+  time: number,
+  limits: HosLimits,
+  timeZone?: string
+): HosClock | null => {
+  const dates = dailyLogs
+    .map((log) => log.log_date)
+    .filter((date) => !isNaN(Date.parse(`${date}T00:00:00`)))
+    .sort();
+  if (!dates.length || dates.length < dailyLogs.length) return null;
+
+  const origin = timeZone
+    ? zonedTimeToEpoch(dates[0], timeZone)
+    : Date.parse(`${dates[0]}T00:00:00`);
+  return clockAt(
+    periodsFromLogs(dailyLogs),
+    0,
+    limits,
+    (time - origin) / 3_600_000
+  );
+};
@@ -0,0 +1,152 @@
+const DB_NAME = "car-tracker";
+const DB_VERSION = 2;
+const KEYVAL_STORE = "keyval";
+
+/**
+ * Object stores besides the key/value one: `trips` holds planned trips by
+ * id, `outbox` trip requests waiting for a connection.
+ */
+export type IdbStore = "trips" | "outbox";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(KEYVAL_STORE)) {
+          db.createObjectStore(KEYVAL_STORE);
+        }
+        if (!db.objectStoreNames.contains("trips")) {
+          db.createObjectStore("trips", { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains("outbox")) {
+          db.createObjectStore("outbox", {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+        }
+      };
+      let blocked = false;
+      req.onsuccess = () => {
+        const db = req.result;
+        // Nobody waits on an open that was blocked; a later call reopens
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Step aside when a newer tab upgrades the schema, or it stays blocked
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      req.onerror = () => reject(req.error);
+      // An older tab holds the database open. The open still completes once
+      // that tab lets go, but callers fall back to memory rather than wait.
+      req.onblocked = () => {
+        blocked = true;
+        reject(new Error("IndexedDB upgrade blocked by another tab"));
+      };
+    });
+    // Let a later call open it again once the other tab is gone
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = action(db.transaction(storeName, mode).objectStore(storeName));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+/**
+ * Minimal key/value wrapper over IndexedDB. Storage is best effort: callers
+ * keep working from memory when IndexedDB is unavailable (private mode, old
+ * browsers), so failures resolve to undefined instead of rejecting.
+ */
+export const idbGet = async <T>(key: string): Promise<T | undefined> => {
+  if (typeof indexedDB === "undefined") return undefined;
+  try {
+    return (await run(KEYVAL_STORE, "readonly", (store) => store.get(key))) as
+      | T
+      | undefined;
+  } catch (err) {
+    console.warn(`IndexedDB read failed for ${key}:`, err);
+    return undefined;
+  }
+};
+
+export const idbSet = async (key: string, value: unknown): Promise<void> => {
+  if (typeof indexedDB === "undefined") return;
+  try {
+    await run(KEYVAL_STORE, "readwrite", (store) => store.put(value, key));
+  } catch (err) {
+    console.warn(`IndexedDB write failed for ${key}:`, err);
+  }
+};
+
+/** Every record of a store, in key order; empty when unavailable. */
+export const idbGetAll = async <T>(storeName: IdbStore): Promise<T[]> => {
+  if (typeof indexedDB === "undefined") return [];
+  try {
+    return (await run(storeName, "readonly", (store) => store.getAll())) as T[];
+  } catch (err) {
+    console.warn(`IndexedDB read failed for ${storeName}:`, err);
+    return [];
+  }
+};
+
+export const idbGetRecord = async <T>(
+  storeName: IdbStore,
+  key: IDBValidKey
+): Promise<T | undefined> => {
+  if (typeof indexedDB === "undefined") return undefined;
+  try {
+    return (await run(storeName, "readonly", (store) => store.get(key))) as
+      | T
+      | undefined;
+  } catch (err) {
+    console.warn(`IndexedDB read failed for ${storeName}:`, err);
+    return undefined;
+  }
+};
+
+/** Stores a record under its key path; resolves to the key, if written. */
+export const idbPut = async (
+  storeName: IdbStore,
+  value: unknown
+): Promise<IDBValidKey | undefined> => {
+  if (typeof indexedDB === "undefined") return undefined;
+  try {
+    return await run(storeName, "readwrite", (store) => store.put(value));
+  } catch (err) {
+    console.warn(`IndexedDB write failed for ${storeName}:`, err);
+    return undefined;
+  }
+};
+
+export const idbDelete = async (
+  storeName: IdbStore,
+  key: IDBValidKey
+): Promise<void> => {
+  if (typeof indexedDB === "undefined") return;
+  try {
+    await run(storeName, "readwrite", (store) => store.delete(key));
+  } catch (err) {
+    console.warn(`IndexedDB delete failed for ${storeName}:`, err);
+  }
+};
@@ -0,0 +1,60 @@
+import L from "leaflet";
+import markerIcon from "leaflet/dist/images/marker-icon.png";
+import markerIcon2x from "leaflet/dist/images/marker-icon-2x.png";
+import markerShadow from "leaflet/dist/images/marker-shadow.png";
+
+// Leaflet's default marker, bundled instead of located through its CSS or a
+// CDN, for markers drawn without an icon of their own
+L.Marker.prototype.options.icon = new L.Icon({
+  iconUrl: markerIcon,
+  iconRetinaUrl: markerIcon2x,
+  shadowUrl: markerShadow,
+  iconSize: [25, 41],
+  iconAnchor: [12, 41],
+  popupAnchor: [1, -34],
+  tooltipAnchor: [16, -28],
+  shadowSize: [41, 41],
+});
+
+export const createCustomIcon = (color: string, highlighted = false) => {
+  return new L.Icon({
+    iconUrl: `data:image/svg+xml;base64,${btoa(`
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32" width="32" height="32">
+        <circle cx="16" cy="16" r="14" fill="${color}" stroke="${
+          highlighted ? "#111827" : "white"
+        }" stroke-width="${highlighted ? 4 : 2}"/>
+        <circle cx="16" cy="16" r="6" fill="white"/>
+      </svg>
+    `)}`,
+    iconSize: [32, 32],
+    iconAnchor: [16, 32],
+    popupAnchor: [0, -32],
+  });
+};
+
+export const iconColors = {
+  driving: "#ef4444",
+  fuel: "#eab308",
+  current: "#6b7280",
+  pickup: "#22c55e",
+  dropoff: "#16a34a",
+  waypoint: "#f97316",
+  sleeper_berth: "#3b82f6",
+  rest_break: "#a855f7",
+  live: "#0f172a",
+  default: "#6b7280",
+};
+
+// Distinct route colours for maps showing several trips
+const ROUTE_COLORS = [
+  "#2563eb",
+  "#db2777",
+  "#059669",
+  "#d97706",
+  "#7c3aed",
+  "#0891b2",
+];
+
+/** Colour of the `index`th route, reused in order past the palette. */
+export const routeColor = (index: number) =>
+  ROUTE_COLORS[index % ROUTE_COLORS.length];
@@ -0,0 +1,154 @@
+import type { LatLng } from "./routeGeometry";
+
+export type TileStyleId = "standard" | "truck";
+
+/** A raster XYZ tile set the maps can draw. */
+export interface TileSource {
+  id: TileStyleId;
+  label: string;
+  /** Leaflet URL template with {z}/{x}/{y}. */
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+const OSM_TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const OSM_ATTRIBUTION =
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+const env = import.meta.env;
+const maxZoom = Number(env.VITE_TILE_MAX_ZOOM) || 19;
+const attribution = env.VITE_TILE_ATTRIBUTION || OSM_ATTRIBUTION;
+
+/**
+ * The tile sets on offer. `VITE_TILE_URL` replaces the OSM tiles, typically
+ * with a local server publishing an MBTiles or PMTiles file (see
+ * tiles/config.json), so cab tablets never leave the local network. The
+ * truck style is offered when `VITE_TRUCK_TILE_URL` points at a rendering of
+ * tiles/truck-style.json.
+ */
+export const TILE_SOURCES: TileSource[] = [
+  {
+    id: "standard",
+    label: "Standard",
+    url: env.VITE_TILE_URL || OSM_TILE_URL,
+    attribution,
+    maxZoom,
+  },
+  ...(env.VITE_TRUCK_TILE_URL
+    ? [
+        {
+          id: "truck" as const,
+          label: "Truck",
+          url: env.VITE_TRUCK_TILE_URL,
+          attribution,
+          maxZoom,
+        },
+      ]
+    : []),
+];
+
+/** The source shown first: `VITE_TILE_STYLE` when it is on offer. */
+export const DEFAULT_TILE_SOURCE =
+  TILE_SOURCES.find((source) => source.id === env.VITE_TILE_STYLE) ??
+  TILE_SOURCES[0];
+
+/** Cache Storage bucket for route tiles; public/sw.js serves from it too. */
+export const TILE_CACHE = "map-tiles-v1";
+
+// Zooms from the country-wide overview to town level. The OSM tile policy
+// forbids bulk downloading, so the corridor stops at zoom 10 and each route
+// fetches at most MAX_PRECACHE_TILES, lowest zooms first.
+const PRECACHE_ZOOMS = [5, 6, 7, 8, 9, 10];
+const MAX_PRECACHE_TILES = 250;
+
+const tileUrl = (template: string, z: number, x: number, y: number) =>
+  template
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+
+// Web Mercator tile holding a point at zoom `z`
+const tileAt = ([lat, lng]: LatLng, z: number): [number, number] => {
+  const n = 2 ** z;
+  const latRad = (lat * Math.PI) / 180;
+  const x = Math.floor(((lng + 180) / 360) * n);
+  const y = Math.floor(
+    ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n
+  );
+  return [
+    Math.min(n - 1, Math.max(0, x)),
+    Math.min(n - 1, Math.max(0, y)),
+  ];
+};
+
+/**
+ * URLs of the tiles a route passes through, zoom by zoom. Each leg is walked
+ * in steps of half a tile so no tile it crosses is skipped.
+ */
+export const corridorTileUrls = (
+  template: string,
+  points: LatLng[],
+  zooms = PRECACHE_ZOOMS,
+  maxTiles = MAX_PRECACHE_TILES
+): string[] => {
+  const urls = new Set<string>();
+
+  for (const z of zooms) {
+    const step = 360 / 2 ** z / 2;
+    for (let i = 0; i < points.length; i++) {
+      const from = points[i];
+      const to = points[i + 1] ?? from;
+      const steps = Math.max(
+        1,
+        Math.ceil(
+          Math.max(Math.abs(to[0] - from[0]), Math.abs(to[1] - from[1])) / step
+        )
+      );
+      for (let s = 0; s < steps; s++) {
+        const t = s / steps;
+        const [x, y] = tileAt(
+          [from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t],
+          z
+        );
+        urls.add(tileUrl(template, z, x, y));
+        if (urls.size >= maxTiles) return [...urls];
+      }
+    }
+  }
+  return [...urls];
+};
+
+/**
+ * Stores the tiles of `source` along a route so the map still draws it
+ * offline. Tiles already cached are skipped and the rest fetched one at a
+ * time; failures stop the run quietly, as it is only a convenience. Templates
+ * with {s} subdomains are skipped, as the map may ask another subdomain.
+ */
+export const precacheRouteTiles = async (
+  source: TileSource,
+  points: LatLng[],
+  signal?: AbortSignal
+): Promise<void> => {
+  if (
+    typeof caches === "undefined" ||
+    !navigator.onLine ||
+    points.length < 2 ||
+    source.url.includes("{s}")
+  ) {
+    return;
+  }
+
+  try {
+    const cache = await caches.open(TILE_CACHE);
+    for (const url of corridorTileUrls(source.url, points)) {
+      if (signal?.aborted) return;
+      if (await cache.match(url)) continue;
+      // Tile images load without CORS, so the stored copy is opaque too
+      const response = await fetch(url, { mode: "no-cors", signal });
+      await cache.put(url, response);
+    }
+  } catch (err) {
+    if (!signal?.aborted) console.warn("Tile precache stopped:", err);
+  }
+};
@@ -0,0 +1,219 @@
+import type {
+  CreateTripRequest,
+  Location,
+  PlannedStop,
+  TripResult,
+  TripSegment,
+} from "../api/types";
+import { DEFAULT_RULE_SET, hosClockAt } from "./hosRules";
+import {
+  cumulativeDistances,
+  tripRoutePoints,
+  type LatLng,
+} from "./routeGeometry";
+import { projectOntoPath } from "./tracking";
+
+// A stop this close behind the truck counts as reached
+const REACHED_STOP_MILES = 1;
+
+const STOP_SEGMENT_TYPES = ["pickup", "dropoff", "waypoint"];
+const FUEL_SEGMENT_TYPES = ["fuel"];
+const REST_SEGMENT_TYPES = ["rest_break", "sleeper_berth", "off_duty"];
+
+/** Segments that were over by `now` (epoch ms). */
+export const completedSegments = (
+  segments: TripSegment[],
+  now: number
+): TripSegment[] =>
+  segments.filter((segment) => Date.parse(segment.end_time) <= now);
+
+/**
+ * Cycle hours used at `now` (epoch ms) if the trip ran to plan, with the
+ * starting hours and any restart taken into account.
+ */
+export const hoursUsedBy = (trip: TripResult, now: number): number =>
+  hosClockAt(trip, now)?.cycleUsed ??
+  (parseFloat(trip.current_cycle_used) || 0);
+
+/**
+ * Stops still ahead of `position`, found by projecting every stop and the
+ * position onto the trip's route.
+ */
+export const remainingStops = (
+  trip: TripResult,
+  position: LatLng
+): PlannedStop[] => {
+  const stops = (trip.stops || []).filter(
+    (stop) => stop.stop_type !== "current"
+  );
+  const path = tripRoutePoints(trip.route_summary, trip.stops || []);
+  if (path.length < 2) return stops;
+
+  const distances = cumulativeDistances(path);
+  const total = distances[distances.length - 1] || 1;
+  const here = projectOntoPath(path, position, distances).fraction;
+
+  return stops.filter((stop) => {
+    const at = projectOntoPath(
+      path,
+      [stop.coords[1], stop.coords[0]],
+      distances
+    ).fraction;
+    return (at - here) * total > -REACHED_STOP_MILES;
+  });
+};
+
+export interface ReplanInput {
+  position: Location;
+  /** Epoch ms to plan from. */
+  now: number;
+  hoursUsed: number;
+}
+
+/** `POST /trips/` body continuing `trip` from where the driver is now. */
+export const buildReplanRequest = (
+  trip: TripResult,
+  { position, now, hoursUsed }: ReplanInput
+): CreateTripRequest => {
+  const stops = remainingStops(trip, [position.coords[1], position.coords[0]]);
+  const firstPickup = stops.find((stop) => stop.stop_type === "pickup");
+  const lastDropoff = [...stops]
+    .reverse()
+    .find((stop) => stop.stop_type === "dropoff");
+
+  return {
+    current_location: { name: position.name, coords: position.coords },
+    pickup_location: firstPickup && {
+      name: firstPickup.name,
+      coords: firstPickup.coords,
+    },
+    dropoff_location: lastDropoff && {
+      name: lastDropoff.name,
+      coords: lastDropoff.coords,
+    },
+    stops,
+    current_cycle_used: Math.round(hoursUsed * 100) / 100,
+    hos_rule_set: trip.hos_rule_set || DEFAULT_RULE_SET,
+    home_terminal_timezone: trip.home_terminal_timezone,
+    // How full the tank is now isn't known, so the backend's default applies
+    tank_capacity_gallons: trip.tank_capacity_gallons,
+    average_mpg: trip.average_mpg,
+    start_time: new Date(now).toISOString(),
+    replanned_from: trip.id,
+    completed_segments: completedSegments(trip.segments || [], now),
+  };
+};
+
+/**
+ * The replanned trip with its driven part in front. Backends that ignore
+ * `completed_segments` return only the new part; the completed segments are
+ * put back here so the schedule still reads from the original start. Daily
+ * logs are taken as returned.
+ */
+export const withCompletedSegments = (
+  result: TripResult,
+  request: CreateTripRequest
+): TripResult => {
+  const completed = request.completed_segments || [];
+  const segments = result.segments || [];
+  const startsAfterCompleted =
+    completed.length > 0 &&
+    segments.length > 0 &&
+    Date.parse(segments[0].start_time) >=
+      Date.parse(completed[completed.length - 1].end_time);
+
+  return {
+    ...result,
+    hos_rule_set: result.hos_rule_set ?? request.hos_rule_set,
+    home_terminal_timezone:
+      result.home_terminal_timezone ?? request.home_terminal_timezone,
+    tank_capacity_gallons:
+      result.tank_capacity_gallons ?? request.tank_capacity_gallons,
+    average_mpg: result.average_mpg ?? request.average_mpg,
+    starting_fuel_level:
+      result.starting_fuel_level ?? request.starting_fuel_level,
+    stops: result.stops?.length
+      ? result.stops
+      : [{ stop_type: "current", ...request.current_location }, ...request.stops],
+    replanned_from: result.replanned_from ?? request.replanned_from,
+    segments: startsAfterCompleted
+      ? [...completed, ...segments].map((segment, index) => ({
+          ...segment,
+          sequence_number: index + 1,
+        }))
+      : segments,
+  };
+};
+
+export type ScheduleChangeKind = "stop" | "fuel" | "rest";
+
+/** One stop of the old or new remaining schedule, matched to its twin. */
+export interface ScheduleChange {
+  kind: ScheduleChangeKind;
+  before?: TripSegment;
+  after?: TripSegment;
+  /** Minutes the stop moved, positive when later. */
+  deltaMinutes?: number;
+  /** True when a fuel or rest stop now happens somewhere else. */
+  moved: boolean;
+}
+
+const kindOf = (segment: TripSegment): ScheduleChangeKind | null => {
+  if (STOP_SEGMENT_TYPES.includes(segment.segment_type)) return "stop";
+  if (FUEL_SEGMENT_TYPES.includes(segment.segment_type)) return "fuel";
+  if (REST_SEGMENT_TYPES.includes(segment.segment_type)) return "rest";
+  return null;
+};
+
+/**
+ * Compares the schedule still ahead in the old plan with the new plan.
+ * Planned stops are matched by type and location, fuel and rest stops by
+ * type in order, so a moved stop shows as one change rather than a removal
+ * and an addition.
+ */
+export const diffSchedules = (
+  oldSegments: TripSegment[],
+  newSegments: TripSegment[],
+  now: number
+): ScheduleChange[] => {
+  const ahead = (segments: TripSegment[]) =>
+    segments.filter(
+      (segment) => Date.parse(segment.end_time) > now && kindOf(segment)
+    );
+  const before = ahead(oldSegments);
+  const after = ahead(newSegments);
+  const used = new Set<TripSegment>();
+
+  const changes: ScheduleChange[] = before.map((old) => {
+    const kind = kindOf(old)!;
+    const twin = after.find(
+      (candidate) =>
+        !used.has(candidate) &&
+        candidate.segment_type === old.segment_type &&
+        (kind !== "stop" || candidate.location === old.location)
+    );
+    if (!twin) return { kind, before: old, moved: false };
+
+    used.add(twin);
+    return {
+      kind,
+      before: old,
+      after: twin,
+      deltaMinutes:
+        (Date.parse(twin.start_time) - Date.parse(old.start_time)) / 60_000,
+      moved: kind !== "stop" && twin.location !== old.location,
+    };
+  });
+
+  after
+    .filter((segment) => !used.has(segment))
+    .forEach((segment) =>
+      changes.push({ kind: kindOf(segment)!, after: segment, moved: false })
+    );
+
+  return changes.sort(
+    (a, b) =>
+      Date.parse((a.after ?? a.before)!.start_time) -
+      Date.parse((b.after ?? b.before)!.start_time)
+  );
+};
@@ -0,0 +1,198 @@
+import type { Feature, FeatureCollection, Geometry, LineString, MultiLineString } from "geojson";
+import type { PlannedStop } from "../api/types";
+
+export type LatLng = [number, number]; // [lat, lng]
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+/**
+ * Decodes a Google-style encoded polyline into [lat, lng] pairs.
+ * OSRM and Google use precision 5, OpenRouteService/Valhalla use 6.
+ */
+export const decodePolyline = (encoded: string, precision = 5): LatLng[] => {
+  const factor = Math.pow(10, precision);
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const readValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += readValue();
+    lng += readValue();
+    points.push([lat / factor, lng / factor]);
+  }
+
+  return points;
+};
+
+// GeoJSON positions are [lng, lat]; Leaflet wants [lat, lng]
+const fromGeoJsonGeometry = (geometry: Geometry | null): LatLng[] => {
+  if (!geometry) return [];
+
+  switch (geometry.type) {
+    case "LineString":
+      return (geometry as LineString).coordinates.map(([lng, lat]) => [lat, lng]);
+    case "MultiLineString":
+      return (geometry as MultiLineString).coordinates.flatMap((line) =>
+        line.map(([lng, lat]) => [lat, lng] as LatLng)
+      );
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(fromGeoJsonGeometry);
+    default:
+      return [];
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const fromGeoJson = (value: Record<string, unknown>): LatLng[] => {
+  if (value.type === "FeatureCollection") {
+    return (value as unknown as FeatureCollection).features.flatMap((feature) =>
+      fromGeoJsonGeometry(feature.geometry)
+    );
+  }
+  if (value.type === "Feature") {
+    return fromGeoJsonGeometry((value as unknown as Feature).geometry);
+  }
+  return fromGeoJsonGeometry(value as unknown as Geometry);
+};
+
+/**
+ * Extracts the road geometry from a trip's route summary. Accepts a GeoJSON
+ * LineString/Feature/FeatureCollection, or an encoded polyline, either at the
+ * top level or under `geometry`. Returns an empty array when there is none.
+ */
+export const parseRouteGeometry = (routeSummary: unknown): LatLng[] => {
+  if (!routeSummary) return [];
+
+  if (typeof routeSummary === "string") {
+    return decodePolyline(routeSummary);
+  }
+
+  if (!isObject(routeSummary)) return [];
+
+  if (typeof routeSummary.type === "string") {
+    return fromGeoJson(routeSummary);
+  }
+
+  const precision =
+    typeof routeSummary.polyline_precision === "number"
+      ? routeSummary.polyline_precision
+      : 5;
+
+  const { geometry } = routeSummary;
+  if (typeof geometry === "string") {
+    return decodePolyline(geometry, precision);
+  }
+  if (isObject(geometry)) {
+    return fromGeoJson(geometry);
+  }
+
+  const encoded = routeSummary.encoded_polyline ?? routeSummary.polyline;
+  if (typeof encoded === "string") {
+    return decodePolyline(encoded, precision);
+  }
+
+  return [];
+};
+
+/**
+ * The path drawn for a trip: the road geometry from the backend, or the
+ * straight line through its stops for trips planned without one.
+ */
+export const tripRoutePoints = (
+  routeSummary: unknown,
+  stops: PlannedStop[]
+): LatLng[] => {
+  const routeGeometry = parseRouteGeometry(routeSummary);
+  if (routeGeometry.length > 1) return routeGeometry;
+  // Stop coords are [lng, lat] as returned by the geocoder
+  return stops.map((stop) => [stop.coords[1], stop.coords[0]]);
+};
+
+export const haversineMiles = (a: LatLng, b: LatLng): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b[0] - a[0]);
+  const dLng = toRad(b[1] - a[1]);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a[0])) * Math.cos(toRad(b[0])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+};
+
+/** Running distance in miles from the first point to each point of the path. */
+export const cumulativeDistances = (path: LatLng[]): number[] => {
+  const distances = [0];
+  for (let i = 1; i < path.length; i++) {
+    distances.push(distances[i - 1] + haversineMiles(path[i - 1], path[i]));
+  }
+  return distances;
+};
+
+const clampFraction = (fraction: number) => Math.max(0, Math.min(1, fraction));
+
+const pointAtDistance = (
+  path: LatLng[],
+  distances: number[],
+  target: number
+): LatLng => {
+  let i = 1;
+  while (i < distances.length - 1 && distances[i] < target) i++;
+  const span = distances[i] - distances[i - 1];
+  const t = span > 0 ? (target - distances[i - 1]) / span : 0;
+  return [
+    path[i - 1][0] + (path[i][0] - path[i - 1][0]) * t,
+    path[i - 1][1] + (path[i][1] - path[i - 1][1]) * t,
+  ];
+};
+
+/** The point lying at a fraction (0..1) of the path's total length. */
+export const pointAlongPath = (
+  path: LatLng[],
+  fraction: number,
+  distances: number[] = cumulativeDistances(path)
+): LatLng => {
+  if (path.length < 2) return path[0];
+  const total = distances[distances.length - 1];
+  return pointAtDistance(path, distances, clampFraction(fraction) * total);
+};
+
+/**
+ * Returns the sub-path between two fractions (0..1) of the path's total
+ * length, interpolating the end points so the slice follows the road exactly.
+ */
+export const slicePath = (
+  path: LatLng[],
+  startFraction: number,
+  endFraction: number,
+  distances: number[] = cumulativeDistances(path)
+): LatLng[] => {
+  if (path.length < 2) return path;
+
+  const total = distances[distances.length - 1];
+  const start = clampFraction(startFraction) * total;
+  const end = clampFraction(endFraction) * total;
+
+  const inner = path.filter(
+    (_, i) => distances[i] > start && distances[i] < end
+  );
+
+  return [
+    pointAtDistance(path, distances, start),
+    ...inner,
+    pointAtDistance(path, distances, end),
+  ];
+};
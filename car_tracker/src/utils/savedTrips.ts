@@ -0,0 +1,46 @@
+import { tripResultSchema } from "../api/schemas";
+import type { TripResult } from "../api/types";
+import { idbGetAll, idbGetRecord, idbPut } from "./idb";
+
+interface SavedTripRecord {
+  id: number;
+  trip: unknown;
+  /** Epoch ms of the last save. */
+  saved_at: number;
+}
+
+// Records written by an older build may not match the current schema; those
+// are skipped rather than shown half-parsed.
+const parseRecord = (record: SavedTripRecord | undefined) => {
+  if (!record) return undefined;
+  const parsed = tripResultSchema.safeParse(record.trip);
+  return parsed.success ? parsed.data : undefined;
+};
+
+/**
+ * Keeps a planned trip, with its segments and daily logs, on this device so
+ * it can be opened without a connection. Saving again replaces the copy.
+ */
+export const saveTrip = (trip: TripResult): Promise<unknown> =>
+  idbPut("trips", {
+    id: trip.id,
+    trip,
+    saved_at: Date.now(),
+  } satisfies SavedTripRecord);
+
+export const getSavedTrip = async (
+  id: number | string
+): Promise<TripResult | undefined> => {
+  const key = Number(id);
+  if (!Number.isInteger(key)) return undefined;
+  return parseRecord(await idbGetRecord<SavedTripRecord>("trips", key));
+};
+
+/** Trips saved on this device, most recently saved first. */
+export const listSavedTrips = async (): Promise<TripResult[]> => {
+  const records = await idbGetAll<SavedTripRecord>("trips");
+  return records
+    .sort((a, b) => b.saved_at - a.saved_at)
+    .map(parseRecord)
+    .filter((trip): trip is TripResult => !!trip);
+};
@@ -0,0 +1,87 @@
+import type {
+  Location,
+  PlannedStop,
+  StopType,
+  TripResult,
+} from "../api/types";
+
+/** An editable row of the trip form's stop list. */
+export interface StopDraft {
+  id: string;
+  stop_type: Exclude<StopType, "current">;
+  location: Location | null;
+  dwell_hours: number | null;
+}
+
+export const STOP_TYPE_LABELS: Record<StopType, string> = {
+  current: "Current Location",
+  pickup: "Pickup",
+  dropoff: "Dropoff",
+  waypoint: "Waypoint",
+};
+
+export const createStopDraft = (
+  stopType: StopDraft["stop_type"] = "waypoint"
+): StopDraft => ({
+  id: Math.random().toString(36).slice(2),
+  stop_type: stopType,
+  location: null,
+  dwell_hours: null,
+});
+
+/** Reasons the stop list can't be planned yet, or null when it can. */
+export const validateStops = (stops: StopDraft[]): string | null => {
+  if (stops.some((stop) => !stop.location)) {
+    return "Please select a location for every stop";
+  }
+  if (!stops.some((stop) => stop.stop_type === "pickup")) {
+    return "Add at least one pickup stop";
+  }
+  if (!stops.some((stop) => stop.stop_type === "dropoff")) {
+    return "Add at least one dropoff stop";
+  }
+  const firstPickup = stops.findIndex((stop) => stop.stop_type === "pickup");
+  const firstDropoff = stops.findIndex((stop) => stop.stop_type === "dropoff");
+  if (firstDropoff < firstPickup) {
+    return "Move a pickup ahead of the first dropoff";
+  }
+  return null;
+};
+
+/**
+ * The ordered stops of a trip as sent to /trips/, starting from the driver's
+ * current location. Drafts without a location are skipped.
+ */
+export const toPlannedStops = (
+  currentLocation: Location,
+  stops: StopDraft[]
+): PlannedStop[] => [
+  {
+    stop_type: "current",
+    name: currentLocation.name,
+    coords: currentLocation.coords,
+  },
+  ...stops.flatMap((stop) =>
+    stop.location
+      ? [
+          {
+            stop_type: stop.stop_type,
+            name: stop.location.name,
+            coords: stop.location.coords,
+            ...(stop.dwell_hours !== null && { dwell_hours: stop.dwell_hours }),
+          },
+        ]
+      : []
+  ),
+];
+
+/**
+ * "Dallas, TX → Tulsa, OK → Denver, CO": a trip's stops in order, or its
+ * current, pickup and dropoff locations for trips without a stop list.
+ */
+export const describeRoute = (trip: TripResult): string =>
+  trip.stops?.length
+    ? trip.stops.map((stop) => stop.name).join(" → ")
+    : [trip.current_location, trip.pickup_location, trip.dropoff_location].join(
+        " → "
+      );
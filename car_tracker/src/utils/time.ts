@@ -0,0 +1,115 @@
+import type { TripSegment } from "../api/types";
+
+/** Home terminal zones offered in the trip form. */
+export const TERMINAL_TIME_ZONES: { id: string; label: string }[] = [
+  { id: "America/New_York", label: "Eastern" },
+  { id: "America/Chicago", label: "Central" },
+  { id: "America/Denver", label: "Mountain" },
+  { id: "America/Phoenix", label: "Mountain (Arizona)" },
+  { id: "America/Los_Angeles", label: "Pacific" },
+  { id: "America/Anchorage", label: "Alaska" },
+  { id: "Pacific/Honolulu", label: "Hawaii" },
+];
+
+export const browserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Minutes the zone's wall clock is ahead of UTC at `time`
+const zoneOffsetMinutes = (time: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(time);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+  return (wallClock - Math.floor(time / 1000) * 1000) / 60_000;
+};
+
+/**
+ * Epoch ms of a wall-clock time ("YYYY-MM-DDTHH:mm", as from datetime-local)
+ * in `timeZone`. The offset is looked up twice so times next to a daylight
+ * saving change land on the right side of it.
+ */
+export const zonedTimeToEpoch = (local: string, timeZone: string): number => {
+  const asUtc = Date.parse(`${local.length === 10 ? `${local}T00:00` : local}Z`);
+  const first = asUtc - zoneOffsetMinutes(asUtc, timeZone) * 60_000;
+  return asUtc - zoneOffsetMinutes(first, timeZone) * 60_000;
+};
+
+/** `time` as a datetime-local value on the wall clock of `timeZone`. */
+export const toZonedInput = (time: number, timeZone: string): string =>
+  new Date(time + zoneOffsetMinutes(time, timeZone) * 60_000)
+    .toISOString()
+    .slice(0, 16);
+
+/** "Mon 2:15 PM CDT": a time on the clock of the zone it happened in. */
+export const formatZonedTime = (
+  time: string | number,
+  timeZone?: string
+): string =>
+  new Date(time).toLocaleString("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+
+/**
+ * Start and end of `segments[index]` in local time where each happens: the
+ * start in the segment's zone and, for a drive, the end in the zone of the
+ * stop it arrives at. Segments without a zone use `fallbackZone`. Falls back
+ * to the backend's formatted times when the timestamps don't parse.
+ */
+export const segmentTimes = (
+  segments: TripSegment[],
+  index: number,
+  fallbackZone?: string
+): { start: string; end: string } | null => {
+  const segment = segments[index];
+  if (
+    isNaN(Date.parse(segment.start_time)) ||
+    isNaN(Date.parse(segment.end_time))
+  ) {
+    return segment.formatted_start_time
+      ? {
+          start: segment.formatted_start_time,
+          end: segment.formatted_end_time ?? "",
+        }
+      : null;
+  }
+
+  const startZone = segment.timezone ?? fallbackZone;
+  const endZone =
+    (segment.segment_type === "driving"
+      ? segments[index + 1]?.timezone
+      : undefined) ?? startZone;
+  return {
+    start: formatZonedTime(segment.start_time, startZone),
+    end: formatZonedTime(segment.end_time, endZone),
+  };
+};
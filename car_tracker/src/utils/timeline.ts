@@ -0,0 +1,146 @@
+import type { DailyLog, TripResult } from "../api/types";
+import { browserTimeZone, toZonedInput, zonedTimeToEpoch } from "./time";
+
+/** A segment placed on the timeline, in epoch ms. */
+export interface TimelineBar {
+  segmentIndex: number;
+  start: number;
+  end: number;
+}
+
+/** A log day: midnight to midnight on the home terminal's clock. */
+export interface TimelineDay {
+  dayNumber: number;
+  log?: DailyLog;
+  start: number;
+  end: number;
+}
+
+export interface TripTimeline {
+  start: number;
+  end: number;
+  bars: TimelineBar[];
+  days: TimelineDay[];
+}
+
+const HOUR_MS = 3_600_000;
+
+// The YYYY-MM-DD `days` after `date`
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * HOUR_MS)
+    .toISOString()
+    .slice(0, 10);
+
+const isDate = (date: string) => !isNaN(Date.parse(`${date}T00:00:00Z`));
+
+/**
+ * Lays a trip's segments and daily log days out on one time axis. Days run
+ * from midnight to midnight in the home terminal's zone, by `log_date`, so
+ * their boundaries match the log graphs. Without dated logs the days are
+ * counted from the midnight before the first segment; without segment times
+ * the segments run back to back from the first day's start. Returns null for
+ * a trip without segments.
+ */
+export const buildTripTimeline = (trip: TripResult): TripTimeline | null => {
+  const segments = trip.segments || [];
+  if (!segments.length) return null;
+
+  const timeZone = trip.home_terminal_timezone ?? browserTimeZone();
+  const midnight = (date: string) => zonedTimeToEpoch(date, timeZone);
+  const logs = [...(trip.daily_logs || [])].sort(
+    (a, b) => a.day_number - b.day_number
+  );
+
+  const timed = segments.every(
+    (segment) =>
+      !isNaN(Date.parse(segment.start_time)) &&
+      !isNaN(Date.parse(segment.end_time))
+  );
+  const firstDate =
+    logs.length && logs.every((log) => isDate(log.log_date))
+      ? logs[0].log_date
+      : timed
+      ? toZonedInput(Date.parse(segments[0].start_time), timeZone).slice(0, 10)
+      : null;
+
+  // Relative to the first day's midnight when nothing is dated
+  const dayStart = (offset: number) =>
+    firstDate ? midnight(addDays(firstDate, offset)) : offset * 24 * HOUR_MS;
+
+  let cursor = dayStart(0);
+  const bars = segments.map((segment, segmentIndex) => {
+    if (timed) {
+      return {
+        segmentIndex,
+        start: Date.parse(segment.start_time),
+        end: Date.parse(segment.end_time),
+      };
+    }
+    const start = cursor;
+    cursor += segment.duration_hours * HOUR_MS;
+    return { segmentIndex, start, end: cursor };
+  });
+  const barsEnd = Math.max(...bars.map((bar) => bar.end));
+
+  const dayOffset = (log: DailyLog, index: number) =>
+    firstDate && isDate(log.log_date)
+      ? Math.round(
+          (Date.parse(`${log.log_date}T00:00:00Z`) -
+            Date.parse(`${firstDate}T00:00:00Z`)) /
+            (24 * HOUR_MS)
+        )
+      : index;
+
+  const days: TimelineDay[] = logs.map((log, index) => ({
+    dayNumber: log.day_number,
+    log,
+    start: dayStart(dayOffset(log, index)),
+    end: dayStart(dayOffset(log, index) + 1),
+  }));
+  // Days the schedule runs into that have no log of their own
+  let lastOffset = logs.length
+    ? dayOffset(logs[logs.length - 1], logs.length - 1)
+    : -1;
+  while (!days.length || days[days.length - 1].end < barsEnd) {
+    lastOffset += 1;
+    days.push({
+      dayNumber: (days[days.length - 1]?.dayNumber ?? 0) + 1,
+      start: dayStart(lastOffset),
+      end: dayStart(lastOffset + 1),
+    });
+  }
+
+  return {
+    start: Math.min(days[0].start, ...bars.map((bar) => bar.start)),
+    end: Math.max(days[days.length - 1].end, barsEnd),
+    bars,
+    days,
+  };
+};
+
+/**
+ * Hours of each log day a segment covers, keyed by day number, as start and
+ * end hours on that day's graph.
+ */
+export const segmentDayHours = (
+  timeline: TripTimeline,
+  segmentIndex: number
+): Map<number, { start_hour: number; end_hour: number }> => {
+  const ranges = new Map<number, { start_hour: number; end_hour: number }>();
+  const bar = timeline.bars[segmentIndex];
+  if (!bar) return ranges;
+
+  for (const day of timeline.days) {
+    const start = Math.max(bar.start, day.start);
+    const end = Math.min(bar.end, day.end);
+    // A stop of no length still marks the moment it happens
+    const instant = bar.start === bar.end && start < day.end;
+    if (end > start || (instant && end === start)) {
+      ranges.set(day.dayNumber, {
+        start_hour: (start - day.start) / HOUR_MS,
+        end_hour: (end - day.start) / HOUR_MS,
+      });
+    }
+  }
+  return ranges;
+};
@@ -0,0 +1,192 @@
+import type { TripSegment } from "../api/types";
+import { haversineMiles, type LatLng } from "./routeGeometry";
+
+/** One position report from the device or the live feed. */
+export interface PositionFix {
+  coords: LatLng;
+  /** Epoch milliseconds at which the position was measured. */
+  timestamp: number;
+  speedMph?: number;
+  accuracyMeters?: number;
+}
+
+export interface RouteSpan {
+  start: number;
+  end: number;
+}
+
+export interface TrackingProgress {
+  /** Fraction (0..1) of the route covered at the fix. */
+  fraction: number;
+  /** Distance from the fix to the nearest point on the route. */
+  offRouteMiles: number;
+  segmentIndex: number;
+  /** When the plan expected the truck to be where the fix puts it. */
+  expectedTime: number;
+  /** Positive when behind schedule, negative when ahead. */
+  deltaMinutes: number;
+}
+
+// Positions this close to a stop count as being at it
+const AT_STOP_MILES = 0.5;
+
+/**
+ * Route fraction at which each segment starts and ends, from the cumulative
+ * `distance_miles` of the segments before it. Stationary segments get an
+ * empty span at the point where the preceding driving ended.
+ */
+export const segmentRouteSpans = (segments: TripSegment[]): RouteSpan[] => {
+  const totalMiles = segments.reduce(
+    (sum, segment) => sum + segment.distance_miles,
+    0
+  );
+
+  let milesSoFar = 0;
+  return segments.map((segment) => {
+    const start = milesSoFar;
+    milesSoFar += segment.distance_miles;
+    return totalMiles > 0
+      ? { start: start / totalMiles, end: milesSoFar / totalMiles }
+      : { start: 0, end: 0 };
+  });
+};
+
+/**
+ * Fraction of the route the plan has covered at `time` (epoch ms), moving at
+ * an even pace through each driving segment.
+ */
+export const plannedFractionAt = (
+  segments: TripSegment[],
+  spans: RouteSpan[],
+  time: number
+): number => {
+  for (const [index, segment] of segments.entries()) {
+    const start = Date.parse(segment.start_time);
+    const end = Date.parse(segment.end_time);
+    if (!(time < end)) continue;
+
+    const { start: from, end: to } = spans[index];
+    const t = time <= start || end <= start ? 0 : (time - start) / (end - start);
+    return from + (to - from) * t;
+  }
+  return segments.length ? 1 : 0;
+};
+
+/**
+ * Nearest point of the path to `point`, as a fraction of the path's length.
+ * Each leg is treated as flat (equirectangular), which is plenty at road scale.
+ */
+export const projectOntoPath = (
+  path: LatLng[],
+  point: LatLng,
+  distances: number[]
+): { fraction: number; offRouteMiles: number } => {
+  const total = distances[distances.length - 1];
+  if (path.length < 2 || total <= 0) {
+    return {
+      fraction: 0,
+      offRouteMiles: path.length ? haversineMiles(path[0], point) : 0,
+    };
+  }
+
+  let best = { along: 0, offRoute: Infinity };
+  const cosLat = Math.cos((point[0] * Math.PI) / 180);
+
+  for (let i = 1; i < path.length; i++) {
+    const [aLat, aLng] = path[i - 1];
+    const [bLat, bLng] = path[i];
+    const dx = (bLng - aLng) * cosLat;
+    const dy = bLat - aLat;
+    const px = (point[1] - aLng) * cosLat;
+    const py = point[0] - aLat;
+    const lengthSq = dx * dx + dy * dy;
+    const t =
+      lengthSq > 0
+        ? Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSq))
+        : 0;
+    const nearest: LatLng = [aLat + (bLat - aLat) * t, aLng + (bLng - aLng) * t];
+    const offRoute = haversineMiles(nearest, point);
+
+    if (offRoute < best.offRoute) {
+      best = {
+        along: distances[i - 1] + (distances[i] - distances[i - 1]) * t,
+        offRoute,
+      };
+    }
+  }
+
+  return { fraction: best.along / total, offRouteMiles: best.offRoute };
+};
+
+/**
+ * Places a fix on the plan: the segment the truck is in and how far ahead or
+ * behind the planned `start_time`/`end_time` it is. Among segments at the
+ * same spot (a stop between two drives) the one nearest in time wins.
+ */
+export const trackProgress = (
+  path: LatLng[],
+  distances: number[],
+  segments: TripSegment[],
+  spans: RouteSpan[],
+  fix: PositionFix
+): TrackingProgress | null => {
+  if (!segments.length) return null;
+
+  const { fraction, offRouteMiles } = projectOntoPath(
+    path,
+    fix.coords,
+    distances
+  );
+  const total = distances[distances.length - 1] || 1;
+  const tolerance = AT_STOP_MILES / total;
+
+  let best: TrackingProgress | null = null;
+
+  for (const [index, segment] of segments.entries()) {
+    const span = spans[index];
+    if (fraction < span.start - tolerance || fraction > span.end + tolerance) {
+      continue;
+    }
+
+    const start = Date.parse(segment.start_time);
+    const end = Date.parse(segment.end_time);
+    if (Number.isNaN(start) || Number.isNaN(end)) continue;
+
+    // Driving: where along the segment the truck is says when it should be
+    // there. Stationary: any time within the planned stop is on schedule.
+    const expectedTime =
+      span.end > span.start
+        ? start +
+          (end - start) *
+            Math.max(
+              0,
+              Math.min(1, (fraction - span.start) / (span.end - span.start))
+            )
+        : Math.max(start, Math.min(end, fix.timestamp));
+    const deltaMinutes = (fix.timestamp - expectedTime) / 60_000;
+
+    if (!best || Math.abs(deltaMinutes) < Math.abs(best.deltaMinutes)) {
+      best = {
+        fraction,
+        offRouteMiles,
+        segmentIndex: index,
+        expectedTime,
+        deltaMinutes,
+      };
+    }
+  }
+
+  return best;
+};
+
+/** "12 min behind", "1h 05m ahead" or "On schedule" for a delta. */
+export const formatScheduleDelta = (deltaMinutes: number): string => {
+  const minutes = Math.round(Math.abs(deltaMinutes));
+  if (minutes < 5) return "On schedule";
+
+  const amount =
+    minutes < 60
+      ? `${minutes} min`
+      : `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+  return `${amount} ${deltaMinutes > 0 ? "behind" : "ahead"}`;
+};
@@ -0,0 +1,213 @@
+import type { TripResult } from "../api/types";
+import { formatCurrency, type FuelPlan } from "./fuelPlan";
+import { describeRoute } from "./stops";
+
+export type PayBasis = "mile" | "hour";
+
+/** Dispatch's rates for costing a trip; amounts are in USD. */
+export interface CostSettings {
+  payBasis: PayBasis;
+  payPerMile: number;
+  payPerHour: number;
+  /** Paid for each rest period the trip needs. */
+  layoverPerRest: number;
+  tolls: number;
+  detentionHours: number;
+  detentionPerHour: number;
+  /** Share of the suggested rate left over after the cost; under 100. */
+  marginPercent: number;
+}
+
+/** Highest margin accepted; at 100% no rate could leave that much over. */
+export const MAX_MARGIN_PERCENT = 99;
+
+export const DEFAULT_COST_SETTINGS: CostSettings = {
+  payBasis: "mile",
+  payPerMile: 0.6,
+  payPerHour: 28,
+  layoverPerRest: 0,
+  tolls: 0,
+  detentionHours: 0,
+  detentionPerHour: 50,
+  marginPercent: 15,
+};
+
+export interface CostLine {
+  label: string;
+  /** How the amount was worked out, e.g. "1,200 mi × $0.60". */
+  basis: string;
+  amount: number;
+}
+
+export interface CostEstimate {
+  lines: CostLine[];
+  miles: number;
+  total: number;
+  /** Null for a trip without distance. */
+  costPerMile: number | null;
+  suggestedRate: number;
+  suggestedRatePerMile: number | null;
+  /** Whether fuel is bought somewhere without a price, so it's undercounted. */
+  fuelIncomplete: boolean;
+}
+
+// The summary totals arrive as strings, possibly with thousands separators
+const summaryNumber = (value: string): number => {
+  const parsed = parseFloat(value.replace(/,/g, ""));
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const round = (value: number, places = 2) =>
+  Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Cost of running the trip from its plan: driver pay by the mile or by the
+ * hour, layover for each rest period, the priced fuel plan, tolls and
+ * detention. Hourly pay covers the driving time plus the time at fuel stops.
+ */
+export const estimateTripCost = (
+  trip: TripResult,
+  fuelPlan: FuelPlan,
+  fuelPriced: boolean,
+  settings: CostSettings
+): CostEstimate => {
+  const miles = summaryNumber(trip.total_distance);
+  const fuelHours = (trip.segments || [])
+    .filter((segment) => segment.segment_type === "fuel")
+    .reduce((sum, segment) => sum + segment.duration_hours, 0);
+  const paidHours = round(summaryNumber(trip.total_duration) + fuelHours);
+
+  const pay: CostLine =
+    settings.payBasis === "mile"
+      ? {
+          label: "Driver pay",
+          basis: `${miles.toLocaleString()} mi × ${formatCurrency(
+            settings.payPerMile
+          )}`,
+          amount: miles * settings.payPerMile,
+        }
+      : {
+          label: "Driver pay",
+          basis: `${paidHours}h × ${formatCurrency(settings.payPerHour)}`,
+          amount: paidHours * settings.payPerHour,
+        };
+
+  const fuelCost = fuelPriced ? fuelPlan.totalCost : 0;
+  const fuelIncomplete =
+    fuelPlan.totalGallons > 0 && (!fuelPriced || fuelPlan.unpricedGallons);
+
+  const lines: CostLine[] = [
+    pay,
+    {
+      label: "Layover",
+      basis: `${plural(
+        trip.required_rest_stops,
+        "rest period"
+      )} × ${formatCurrency(settings.layoverPerRest)}`,
+      amount: trip.required_rest_stops * settings.layoverPerRest,
+    },
+    {
+      label: "Fuel",
+      basis: `${Math.round(fuelPlan.totalGallons)} gal over ${plural(
+        trip.fuel_stops,
+        "stop"
+      )}${fuelIncomplete ? " (partly unpriced)" : ""}`,
+      amount: fuelCost,
+    },
+    { label: "Tolls", basis: "Entered", amount: settings.tolls },
+    {
+      label: "Detention",
+      basis: `${settings.detentionHours}h × ${formatCurrency(
+        settings.detentionPerHour
+      )}`,
+      amount: settings.detentionHours * settings.detentionPerHour,
+    },
+  ].map((line) => ({ ...line, amount: round(line.amount) }));
+
+  const total = round(lines.reduce((sum, line) => sum + line.amount, 0));
+  // A margin is a share of the price, not a markup on the cost: a 15% margin
+  // on $850 of cost is $1,000, not $977.50
+  const margin = Math.min(settings.marginPercent, MAX_MARGIN_PERCENT) / 100;
+  const suggestedRate = round(total / (1 - margin));
+
+  return {
+    lines,
+    miles,
+    total,
+    costPerMile: miles > 0 ? round(total / miles) : null,
+    suggestedRate,
+    suggestedRatePerMile: miles > 0 ? round(suggestedRate / miles) : null,
+    fuelIncomplete,
+  };
+};
+
+const csvField = (value: string | number): string => {
+  // Spreadsheets run text starting with these as a formula, so a stop named
+  // "=HYPERLINK(...)" would execute; the quote makes it plain text
+  const text =
+    typeof value === "string" && /^[=+\-@]/.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** The estimate as CSV: one row per cost, then the totals. */
+export const costEstimateCsv = (
+  trip: TripResult,
+  estimate: CostEstimate,
+  settings: CostSettings
+): string => {
+  const money = (amount: number | null) =>
+    amount === null ? "" : amount.toFixed(2);
+
+  const rows: (string | number)[][] = [
+    ["Trip", trip.id],
+    ["Route", describeRoute(trip)],
+    ["Miles", estimate.miles],
+    ["Driving hours", trip.total_duration],
+    [],
+    ["Item", "Basis", "Amount (USD)"],
+    ...estimate.lines.map((line) => [
+      line.label,
+      line.basis,
+      money(line.amount),
+    ]),
+    [],
+    ["Total cost", "", money(estimate.total)],
+    ["Cost per mile", "", money(estimate.costPerMile)],
+    [
+      "Suggested rate",
+      `${settings.marginPercent}% margin`,
+      money(estimate.suggestedRate),
+    ],
+    ["Suggested rate per mile", "", money(estimate.suggestedRatePerMile)],
+  ];
+
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+};
+
+/** Downloads the estimate as `trip-<id>-cost.csv`. */
+export const exportCostCsv = (
+  trip: TripResult,
+  estimate: CostEstimate,
+  settings: CostSettings
+): void => {
+  // The byte order mark makes spreadsheets read the file as UTF-8
+  const csv = costEstimateCsv(trip, estimate, settings);
+  const blob = new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `trip-${trip.id}-cost.csv`;
+  // Firefox only follows links that are in the document, and the download
+  // starts after click() returns, so the URL is released a moment later
+  document.body.appendChild(link);
+  link.click();
+  setTimeout(() => {
+    link.remove();
+    URL.revokeObjectURL(url);
+  });
+};
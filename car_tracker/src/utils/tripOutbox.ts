@@ -0,0 +1,170 @@
+import { ApiError } from "../api/client";
+import { createTrip } from "../api/trips";
+import type {
+  CreateTripRequest,
+  PlannedStop,
+  TripResult,
+} from "../api/types";
+import { idbDelete, idbGetAll, idbPut } from "./idb";
+import { saveTrip } from "./savedTrips";
+
+/** A trip request made without a connection, waiting to be sent. */
+export interface QueuedTrip {
+  id: number;
+  request: CreateTripRequest;
+  /** The planned stops, start first, for backends that don't echo them. */
+  stops: PlannedStop[];
+  /** Epoch ms. */
+  queued_at: number;
+  /** Set when the backend rejected the request; it is not sent again. */
+  error?: string;
+}
+
+export interface TripOutboxState {
+  queued: QueuedTrip[];
+  /** Queued trips planned since the page loaded, oldest first. */
+  planned: TripResult[];
+}
+
+let state: TripOutboxState = { queued: [], planned: [] };
+const listeners = new Set<() => void>();
+let loadPromise: Promise<void> | null = null;
+let flushPromise: Promise<void> | null = null;
+
+const setState = (changes: Partial<TripOutboxState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener());
+};
+
+/** For useSyncExternalStore. */
+export const getTripOutbox = (): TripOutboxState => state;
+
+export const subscribeTripOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Fills what older backends leave out of a planned trip from the request
+ * it answers.
+ */
+export const completeTrip = (
+  result: TripResult,
+  request: CreateTripRequest,
+  stops: PlannedStop[]
+): TripResult => ({
+  ...result,
+  hos_rule_set: result.hos_rule_set ?? request.hos_rule_set,
+  home_terminal_timezone:
+    result.home_terminal_timezone ?? request.home_terminal_timezone,
+  tank_capacity_gallons:
+    result.tank_capacity_gallons ?? request.tank_capacity_gallons,
+  average_mpg: result.average_mpg ?? request.average_mpg,
+  starting_fuel_level:
+    result.starting_fuel_level ?? request.starting_fuel_level,
+  stops: result.stops?.length ? result.stops : stops,
+});
+
+const loadTripOutbox = (): Promise<void> => {
+  if (!loadPromise) {
+    loadPromise = idbGetAll<QueuedTrip>("outbox").then((stored) => {
+      const storedIds = new Set(stored.map((entry) => entry.id));
+      setState({
+        queued: [
+          ...stored,
+          ...state.queued.filter((entry) => !storedIds.has(entry.id)),
+        ],
+      });
+    });
+  }
+  return loadPromise;
+};
+
+/**
+ * Keeps a trip request to send once the connection is back. Resolves to
+ * false when it could not be stored, so the caller can report the failure.
+ */
+export const queueTrip = async (
+  request: CreateTripRequest,
+  stops: PlannedStop[]
+): Promise<boolean> => {
+  const entry = { request, stops, queued_at: Date.now() };
+  const id = await idbPut("outbox", entry);
+  if (typeof id !== "number") return false;
+
+  setState({ queued: [...state.queued, { ...entry, id }] });
+  return true;
+};
+
+export const discardQueuedTrip = async (id: number) => {
+  await idbDelete("outbox", id);
+  setState({ queued: state.queued.filter((entry) => entry.id !== id) });
+};
+
+export const dismissPlannedTrip = (id: number) => {
+  setState({ planned: state.planned.filter((trip) => trip.id !== id) });
+};
+
+const sendQueuedTrip = async (entry: QueuedTrip): Promise<boolean> => {
+  try {
+    const trip = completeTrip(
+      await createTrip(entry.request),
+      entry.request,
+      entry.stops
+    );
+    await saveTrip(trip);
+    await idbDelete("outbox", entry.id);
+    setState({
+      queued: state.queued.filter((queued) => queued.id !== entry.id),
+      planned: [...state.planned, trip],
+    });
+    return true;
+  } catch (err) {
+    console.error("Queued trip error:", err);
+    // Still offline, or the backend is down: leave the rest for later
+    if (err instanceof ApiError && err.retryable) return false;
+
+    const failed = {
+      ...entry,
+      error: err instanceof Error ? err.message : "Failed to plan the trip",
+    };
+    await idbPut("outbox", failed);
+    setState({
+      queued: state.queued.map((queued) =>
+        queued.id === entry.id ? failed : queued
+      ),
+    });
+    return true;
+  }
+};
+
+/** Sends the queued requests in order; only one flush runs at a time. */
+export const flushTripOutbox = (): Promise<void> => {
+  if (!flushPromise) {
+    flushPromise = (async () => {
+      await loadTripOutbox();
+      for (const entry of state.queued) {
+        if (entry.error) continue;
+        if (!(await sendQueuedTrip(entry))) break;
+      }
+    })().finally(() => {
+      flushPromise = null;
+    });
+  }
+  return flushPromise;
+};
+
+/**
+ * Loads the queue and sends it now and whenever the browser comes back
+ * online. Returns a cleanup for effects.
+ */
+export const startTripOutbox = () => {
+  const flush = () => {
+    flushTripOutbox();
+  };
+  flush();
+  window.addEventListener("online", flush);
+  return () => window.removeEventListener("online", flush);
+};
@@ -0,0 +1,257 @@
+import type { jsPDF } from "jspdf";
+import type { DailyLog, TripResult } from "../api/types";
+import {
+  DUTY_STATUS_ROWS,
+  computeDutyTotals,
+  formatHours,
+  normalizeLogEntries,
+} from "./eldLog";
+import { DEFAULT_RULE_SET, HOS_RULE_SETS } from "./hosRules";
+import { segmentTimes } from "./time";
+
+// Landscape US letter, in points
+const PAGE_WIDTH = 792;
+const PAGE_HEIGHT = 612;
+const MARGIN = 40;
+const LABEL_WIDTH = 120;
+const TOTAL_WIDTH = 56;
+const GRID_WIDTH = PAGE_WIDTH - MARGIN * 2 - LABEL_WIDTH - TOTAL_WIDTH;
+const HOUR_WIDTH = GRID_WIDTH / 24;
+const ROW_HEIGHT = 28;
+
+const drawSummaryPage = (doc: jsPDF, trip: TripResult) => {
+  let y = MARGIN + 10;
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text("Trip Plan", MARGIN, y);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  y += 20;
+  const route = trip.stops?.length
+    ? trip.stops.map((stop) => stop.name)
+    : [trip.current_location, trip.pickup_location, trip.dropoff_location];
+  doc.text(
+    doc.splitTextToSize(route.join("  ->  "), PAGE_WIDTH - MARGIN * 2)[0] as string,
+    MARGIN,
+    y
+  );
+  y += 16;
+  doc.text(
+    `Distance: ${trip.total_distance} mi    Driving time: ${trip.total_duration}h    ` +
+      `Fuel stops: ${trip.fuel_stops}    Rest periods: ${trip.required_rest_stops}    ` +
+      `Cycle used at start: ${trip.current_cycle_used}h`,
+    MARGIN,
+    y
+  );
+  y += 16;
+  doc.text(
+    `HOS rules: ${HOS_RULE_SETS[trip.hos_rule_set || DEFAULT_RULE_SET].label}` +
+      (trip.home_terminal_timezone
+        ? `    Home terminal time: ${trip.home_terminal_timezone}`
+        : ""),
+    MARGIN,
+    y
+  );
+
+  y += 28;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.text("Schedule", MARGIN, y);
+
+  const columns = [
+    { title: "#", x: MARGIN },
+    { title: "Activity", x: MARGIN + 30 },
+    { title: "Location", x: MARGIN + 150 },
+    { title: "Start", x: MARGIN + 430 },
+    { title: "End", x: MARGIN + 530 },
+    { title: "Hours", x: MARGIN + 630 },
+    { title: "Miles", x: MARGIN + 680 },
+  ];
+
+  y += 18;
+  doc.setFontSize(9);
+  columns.forEach(({ title, x }) => doc.text(title, x, y));
+  doc.setLineWidth(0.5);
+  doc.line(MARGIN, y + 4, PAGE_WIDTH - MARGIN, y + 4);
+  doc.setFont("helvetica", "normal");
+
+  const segments = trip.segments || [];
+  for (const [index, segment] of segments.entries()) {
+    y += 16;
+    if (y > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      y = MARGIN + 10;
+    }
+    const times = segmentTimes(segments, index, trip.home_terminal_timezone);
+    const values = [
+      String(segment.sequence_number),
+      segment.segment_type_display || segment.segment_type,
+      doc.splitTextToSize(segment.location, 270)[0] as string,
+      times?.start ?? segment.start_time,
+      times?.end ?? segment.end_time,
+      String(segment.duration_hours),
+      segment.distance_miles > 0 ? String(segment.distance_miles) : "",
+    ];
+    values.forEach((value, index) => doc.text(value, columns[index].x, y));
+  }
+};
+
+const drawDailyLogPage = (
+  doc: jsPDF,
+  dailyLog: DailyLog,
+  timeZone?: string
+) => {
+  const entries = normalizeLogEntries(dailyLog.entries);
+  const totals = computeDutyTotals(entries);
+  const gridLeft = MARGIN + LABEL_WIDTH;
+  const gridTop = MARGIN + 70;
+  const gridBottom = gridTop + ROW_HEIGHT * DUTY_STATUS_ROWS.length;
+  const xFor = (hour: number) => gridLeft + hour * HOUR_WIDTH;
+  const yFor = (status: string) =>
+    gridTop +
+    DUTY_STATUS_ROWS.findIndex((row) => row.status === status) * ROW_HEIGHT +
+    ROW_HEIGHT / 2;
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text(
+    `Driver's Daily Log - Day ${dailyLog.day_number} (${
+      dailyLog.formatted_date || dailyLog.log_date
+    })`,
+    MARGIN,
+    MARGIN + 10
+  );
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(
+    `Total miles driving today: ${dailyLog.total_miles}` +
+      (timeZone ? `    Times in home terminal time (${timeZone})` : ""),
+    MARGIN,
+    MARGIN + 30
+  );
+
+  doc.setFontSize(7);
+  for (let hour = 0; hour <= 24; hour++) {
+    const label =
+      hour === 0 || hour === 24 ? "Mid" : hour === 12 ? "Noon" : String(hour % 12);
+    doc.text(label, xFor(hour), gridTop - 6, { align: "center" });
+  }
+  doc.text("Total", gridLeft + GRID_WIDTH + TOTAL_WIDTH / 2, gridTop - 6, {
+    align: "center",
+  });
+
+  doc.setDrawColor(150);
+  DUTY_STATUS_ROWS.forEach(({ status, label }, index) => {
+    const top = gridTop + index * ROW_HEIGHT;
+    doc.setLineWidth(0.5);
+    doc.rect(MARGIN, top, PAGE_WIDTH - MARGIN * 2, ROW_HEIGHT);
+    doc.setFontSize(9);
+    doc.text(`${index + 1}. ${label}`, MARGIN + 4, top + ROW_HEIGHT / 2 + 3);
+    doc.text(
+      formatHours(totals[status]),
+      gridLeft + GRID_WIDTH + TOTAL_WIDTH / 2,
+      top + ROW_HEIGHT / 2 + 3,
+      { align: "center" }
+    );
+
+    for (let quarter = 0; quarter <= 24 * 4; quarter++) {
+      const tick =
+        quarter % 4 === 0
+          ? ROW_HEIGHT
+          : quarter % 2 === 0
+          ? ROW_HEIGHT / 2
+          : ROW_HEIGHT / 4;
+      doc.setLineWidth(quarter % 4 === 0 ? 0.5 : 0.25);
+      doc.line(xFor(quarter / 4), top, xFor(quarter / 4), top + tick);
+    }
+  });
+
+  doc.setDrawColor(30, 58, 138);
+  doc.setLineWidth(1.5);
+  entries.forEach((entry, index) => {
+    const y = yFor(entry.duty_status);
+    doc.line(xFor(entry.start_hour), y, xFor(entry.end_hour), y);
+    const next = entries[index + 1];
+    if (next) {
+      doc.line(xFor(entry.end_hour), y, xFor(entry.end_hour), yFor(next.duty_status));
+    }
+  });
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(9);
+  doc.text(
+    `= ${formatHours(Object.values(totals).reduce((sum, h) => sum + h, 0))}`,
+    gridLeft + GRID_WIDTH + TOTAL_WIDTH / 2,
+    gridBottom + 12,
+    { align: "center" }
+  );
+  doc.text("Remarks", MARGIN + 4, gridBottom + 12);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(7);
+  doc.setLineWidth(0.75);
+  let lastLocation = "";
+  entries.forEach((entry) => {
+    lastLocation = entry.location || lastLocation;
+    const x = xFor(entry.start_hour);
+    doc.line(x, gridBottom, x, gridBottom + 8);
+    doc.text(lastLocation || "-", x + 2, gridBottom + 12, { angle: -45 });
+  });
+
+  // Two columns under the graph, then on to further pages as needed
+  let listTop = gridBottom + 150;
+  let x = MARGIN;
+  let y = listTop;
+  doc.setFontSize(9);
+  entries.forEach((entry) => {
+    if (y > PAGE_HEIGHT - MARGIN) {
+      if (x === MARGIN) {
+        x += (PAGE_WIDTH - MARGIN * 2) / 2;
+      } else {
+        doc.addPage();
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(12);
+        doc.text(
+          `Day ${dailyLog.day_number} duty status changes (continued)`,
+          MARGIN,
+          MARGIN + 10
+        );
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(9);
+        x = MARGIN;
+        listTop = MARGIN + 34;
+      }
+      y = listTop;
+    }
+    const row = DUTY_STATUS_ROWS.find((r) => r.status === entry.duty_status);
+    doc.text(
+      `${formatHours(entry.start_hour)}-${formatHours(entry.end_hour)}  ${
+        entry.duty_status_display || row?.label
+      }${entry.location ? `  ${entry.location}` : ""}`,
+      x,
+      y
+    );
+    y += 12;
+  });
+};
+
+/**
+ * Builds the printable trip packet entirely in the browser: a summary page
+ * with the segment schedule followed by one page per daily log. jsPDF is
+ * loaded on demand so it stays out of the main bundle.
+ */
+export const exportTripPdf = async (trip: TripResult): Promise<void> => {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ orientation: "landscape", unit: "pt", format: "letter" });
+
+  drawSummaryPage(doc, trip);
+
+  for (const dailyLog of trip.daily_logs || []) {
+    doc.addPage();
+    drawDailyLogPage(doc, dailyLog, trip.home_terminal_timezone);
+  }
+
+  doc.save(`trip-${trip.id}-logs.pdf`);
+};
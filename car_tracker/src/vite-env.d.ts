@@ -1 +1,17 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL: string;
+  readonly VITE_TRACKING_URL?: string;
+  /** XYZ template of the map tiles; OpenStreetMap when unset. */
+  readonly VITE_TILE_URL?: string;
+  readonly VITE_TILE_ATTRIBUTION?: string;
+  readonly VITE_TILE_MAX_ZOOM?: string;
+  /** XYZ template of the truck style; offered as a second layer when set. */
+  readonly VITE_TRUCK_TILE_URL?: string;
+  /** "standard" or "truck": the style maps open with. */
+  readonly VITE_TILE_STYLE?: string;
+  /** "api" for the backend's fuel prices; otherwise a price file is read. */
+  readonly VITE_FUEL_PRICE_SOURCE?: string;
+  readonly VITE_FUEL_PRICE_FILE?: string;
+}
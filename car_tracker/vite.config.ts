@@ -1,10 +1,34 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest/config" />
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
 
+// Writes the built files into public/sw.js's precache list, so lazy chunks
+// (PDF export, canvas capture) are cached at install and work offline. The
+// list changes with every build, which also makes browsers update the worker.
+const precacheAssets = (): Plugin => ({
+  name: "precache-assets",
+  apply: "build",
+  writeBundle(options, bundle) {
+    const urls = Object.keys(bundle)
+      .filter((name) => name.startsWith("assets/") && !name.endsWith(".map"))
+      .map((name) => `/${name}`);
+    const worker = join(options.dir ?? "dist", "sw.js");
+    writeFileSync(
+      worker,
+      readFileSync(worker, "utf8").replace(
+        "self.__BUILD_ASSETS__",
+        JSON.stringify(urls)
+      )
+    );
+  },
+});
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), precacheAssets()],
   server: {
     proxy: {
       '/api': {
@@ -13,4 +37,8 @@ export default defineConfig({
       },
     },
   },
+  test: {
+    environment: "jsdom",
+    setupFiles: ["./src/test/setup.ts"],
+  },
 });